@@ -1,13 +1,19 @@
+import { lazy, Suspense } from "react";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import ReplayPlayer from "./pages/ReplayPlayer";
+import ScenarioEditor from "./pages/ScenarioEditor";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
+// The fixture gallery is a development tool; production builds leave it out.
+const StageGallery = import.meta.env.DEV ? lazy(() => import("./pages/StageGallery")) : null;
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
@@ -15,7 +21,19 @@ const App = () => (
       <Sonner />
       <BrowserRouter basename={import.meta.env.BASE_URL || "./"}>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route path="/editor" element={<ScenarioEditor />} />
+          <Route path="/replay" element={<ReplayPlayer />} />
+          {StageGallery && (
+            <Route
+              path="/dev/stages"
+              element={
+                <Suspense fallback={null}>
+                  <StageGallery />
+                </Suspense>
+              }
+            />
+          )}
+          <Route path="/:stageId?" element={<Index />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,296 @@
+// Argument handling and output formatting for the `simulate` command. Runs
+// are played by the same headless runner (and so the same engine) as the
+// browser's batch studies; this module only turns files and flags into runs.
+
+import { parseArgs } from "node:util";
+import { z } from "zod";
+import { runScenario, type RunScenario } from "@/lib/simulation/batch";
+import { computeResults, type SimulationResults } from "@/lib/simulation/engine";
+import { getPlasticShare } from "@/lib/simulation/feedstocks";
+import { createStageMachine } from "@/lib/simulation/machine";
+import { applyInput, createReplayContext, loadReplay } from "@/lib/simulation/replay";
+import {
+  DEFAULT_SCENARIO,
+  evaluateTargets,
+  feedMixSchema,
+  formatScenarioIssues,
+  loadScenario,
+  type Scenario,
+  type TargetResult,
+} from "@/lib/simulation/scenario";
+import { CORE_STAGES, getStageOrder } from "@/lib/simulation/stages";
+
+export const SIMULATE_USAGE = `Usage: npm run simulate -- [options]
+
+Plays one run (or every run in an inputs file) through the pyrolysis model
+and prints the results shown on the results screen.
+
+Options:
+  --scenario <file>   Scenario JSON file (default: the standard mission)
+  --inputs <file>     Run inputs JSON: one run or an array of runs with
+                      plasticRatio or mix, heat, coolingPower and
+                      optionally id, seed, dechlorination and
+                      sortingLosses
+  --plastic <0-100>   Plastic share of a polyethylene/wood chip feed
+                      (default: the scenario's feed)
+  --mix <id:share,…>  Feed composition adding up to 100, e.g.
+                      pe:40,pet:10,wood-chips:50; overrides --plastic.
+                      An entry can add its moisture (%) and particle size
+                      (mm): wood-chips:50:10:5
+  --dechlorination    Strip HCl from the feed before it cracks
+  --heat <value>      Heat level for every reactor cell, or a JSON file with
+                      the full heat grid (default: 100)
+  --cooling <values>  Cooling power, or a comma separated power per 0.1 s tick;
+                      the last value holds (default: 50)
+  --losses <n>        Products dropped into the wrong bin (default: 0)
+  --seed <n>          Run seed (default: 0)
+  --replay <file>     Replay file saved from the game: plays its recorded
+                      inputs under its own scenario instead of the options
+                      above
+  --format <format>   json or csv (default: json)
+  --help              Show this message`;
+
+export type OutputFormat = "json" | "csv";
+
+export interface SimulateOptions {
+  scenario?: string;
+  inputs?: string;
+  plastic?: string;
+  mix?: string;
+  dechlorination: boolean;
+  heat?: string;
+  cooling?: string;
+  losses?: string;
+  seed?: string;
+  replay?: string;
+  format: OutputFormat;
+  help: boolean;
+}
+
+export interface RunOutput {
+  id?: string;
+  results: SimulationResults;
+  targets: TargetResult[];
+}
+
+export type ReadFile = (path: string) => string;
+
+const level = z.number().min(0).max(100);
+
+const runInputSchema = z
+  .object({
+    id: z.string().optional(),
+    seed: z.number().int().optional(),
+    plasticRatio: level.optional(),
+    mix: feedMixSchema.optional(),
+    heat: z.union([level, z.array(z.array(level))]),
+    dechlorination: z.boolean().optional(),
+    sortingLosses: z.number().int().min(0).optional(),
+    coolingPower: z.union([level, z.array(level).min(1)]),
+  })
+  .strict()
+  .refine(run => run.plasticRatio !== undefined || run.mix !== undefined, {
+    message: "Required unless a mix is given",
+    path: ["plasticRatio"],
+  });
+
+export const parseSimulateArgs = (args: string[]): SimulateOptions => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      scenario: { type: "string" },
+      inputs: { type: "string" },
+      plastic: { type: "string" },
+      mix: { type: "string" },
+      dechlorination: { type: "boolean", default: false },
+      heat: { type: "string" },
+      cooling: { type: "string" },
+      losses: { type: "string" },
+      seed: { type: "string" },
+      replay: { type: "string" },
+      format: { type: "string", default: "json" },
+      help: { type: "boolean", default: false },
+    },
+  });
+  if (values.format !== "json" && values.format !== "csv") {
+    throw new Error(`Unknown format "${values.format}", expected json or csv`);
+  }
+  return { ...values, format: values.format, dechlorination: values.dechlorination, help: values.help };
+};
+
+const parseNumber = (flag: string, value: string) => {
+  const number = Number(value);
+  if (value.trim() === "" || !Number.isFinite(number)) throw new Error(`--${flag} expects a number, got "${value}"`);
+  return number;
+};
+
+/**
+ * `pe:40,wood-chips:60:10:5` into feed components, each optionally with its
+ * moisture and particle size; the catalog ids are checked with the rest of the run.
+ */
+const parseMix = (value: string) =>
+  value.split(",").map(entry => {
+    const [id, share, moisture, particleSize, ...rest] = entry.split(":");
+    if (share === undefined || rest.length > 0) {
+      throw new Error(`--mix expects id:share[:moisture[:particle size]] entries, got "${entry}"`);
+    }
+    return {
+      id: id.trim(),
+      share: parseNumber("mix", share),
+      ...(moisture !== undefined && { moisture: parseNumber("mix", moisture) }),
+      ...(particleSize !== undefined && { particleSize: parseNumber("mix", particleSize) }),
+    };
+  });
+
+const readJson = (readFile: ReadFile, path: string): unknown => {
+  try {
+    return JSON.parse(readFile(path));
+  } catch (error) {
+    throw new Error(`Could not read ${path}: ${(error as Error).message}`);
+  }
+};
+
+const readScenario = (readFile: ReadFile, path?: string): Scenario => {
+  if (!path) return DEFAULT_SCENARIO;
+  const { scenario, errors } = loadScenario(readFile(path));
+  if (!scenario) throw new Error(`Invalid scenario ${path}:\n  ${errors.join("\n  ")}`);
+  return scenario;
+};
+
+const readInputs = (readFile: ReadFile, path: string): unknown[] => {
+  const data = readJson(readFile, path);
+  return Array.isArray(data) ? data : [data];
+};
+
+const inputsFromFlags = (options: SimulateOptions, scenario: Scenario, readFile: ReadFile): unknown => ({
+  seed: options.seed === undefined ? undefined : parseNumber("seed", options.seed),
+  plasticRatio:
+    options.plastic === undefined ? scenario.stages.feedstock.plasticRatio : parseNumber("plastic", options.plastic),
+  mix:
+    options.mix !== undefined
+      ? parseMix(options.mix)
+      : options.plastic === undefined
+        ? scenario.stages.feedstock.mix
+        : undefined,
+  dechlorination: options.dechlorination || undefined,
+  heat:
+    options.heat === undefined
+      ? 100
+      : options.heat.endsWith(".json")
+        ? readJson(readFile, options.heat)
+        : parseNumber("heat", options.heat),
+  sortingLosses: options.losses === undefined ? undefined : parseNumber("losses", options.losses),
+  coolingPower:
+    options.cooling === undefined
+      ? 50
+      : options.cooling.includes(",")
+        ? options.cooling.split(",").map(value => parseNumber("cooling", value))
+        : parseNumber("cooling", options.cooling),
+});
+
+const validateRun = (input: unknown, scenario: Scenario, label: string): RunScenario => {
+  const parsed = runInputSchema.safeParse(input);
+  if (!parsed.success) throw new Error(`Invalid ${label}:\n  ${formatScenarioIssues(parsed.error).join("\n  ")}`);
+  const { id, seed, plasticRatio, mix, heat, dechlorination, sortingLosses, coolingPower } = parsed.data;
+  const size = scenario.stages.heating.gridSize;
+  if (Array.isArray(heat) && (heat.length !== size || heat.some(row => row.length !== size))) {
+    throw new Error(`Invalid ${label}: the heat grid must be ${size}x${size} for this scenario`);
+  }
+  return {
+    id,
+    seed,
+    scenario,
+    // The schema requires one of the two, so a run without a plastic ratio has a mix
+    plasticRatio: plasticRatio ?? getPlasticShare(mix),
+    mix,
+    heat,
+    dechlorination,
+    sortingLosses,
+    coolingPower,
+  };
+};
+
+/** Resolves the options into the runs to play, reading scenario and input files through `readFile`. */
+export const buildRuns = (options: SimulateOptions, readFile: ReadFile): RunScenario[] => {
+  const scenario = readScenario(readFile, options.scenario);
+  if (options.inputs) {
+    return readInputs(readFile, options.inputs).map((input, index) =>
+      validateRun(input, scenario, `run ${index} in ${options.inputs}`),
+    );
+  }
+  return [validateRun(inputsFromFlags(options, scenario, readFile), scenario, "options")];
+};
+
+// Options that describe a run of their own, which a replay already records
+const RUN_OPTIONS = ["scenario", "inputs", "plastic", "mix", "heat", "cooling", "losses", "seed"] as const;
+
+/**
+ * Plays the recorded inputs of a replay file through the core stages and
+ * grades the run it ends on against its scenario's targets.
+ */
+export const simulateReplay = (options: SimulateOptions, readFile: ReadFile): RunOutput => {
+  const path = options.replay;
+  const conflicting = [
+    ...RUN_OPTIONS.filter(option => options[option] !== undefined),
+    ...(options.dechlorination ? ["dechlorination"] : []),
+  ];
+  if (conflicting.length > 0) {
+    throw new Error(`--replay plays the recorded run and cannot be combined with --${conflicting.join(", --")}`);
+  }
+  let json: string;
+  try {
+    json = readFile(path);
+  } catch (error) {
+    throw new Error(`Could not read ${path}: ${(error as Error).message}`);
+  }
+  const { replay, errors } = loadReplay(json, CORE_STAGES.map(stage => stage.id));
+  if (!replay) throw new Error(`Invalid replay ${path}:\n  ${errors.join("\n  ")}`);
+  const { scenario } = replay.initial;
+  const context = createReplayContext(createStageMachine(CORE_STAGES, getStageOrder(CORE_STAGES, scenario.levels)));
+  const final = replay.entries.reduce((state, { input }) => applyInput(state, input, context), replay.initial);
+  const results = computeResults(final);
+  return { id: path, results, targets: evaluateTargets(results, scenario.targets) };
+};
+
+export const simulateRuns = (runs: RunScenario[]): RunOutput[] =>
+  runs.map(run => {
+    const results = runScenario(run);
+    const scenario = run.scenario ?? DEFAULT_SCENARIO;
+    return { id: run.id, results, targets: evaluateTargets(results, scenario.targets) };
+  });
+
+const flatten = (value: object, prefix = ""): [string, unknown][] =>
+  Object.entries(value).flatMap(([key, entry]) =>
+    entry !== null && typeof entry === "object"
+      ? flatten(entry, `${prefix}${key}.`)
+      : [[`${prefix}${key}`, entry] as [string, unknown]],
+  );
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Each target's value and whether the run met it, then whether it met them all. */
+const targetColumns = (targets: TargetResult[]): [string, unknown][] => [
+  ...targets.flatMap(({ metric, target, met }): [string, unknown][] => [
+    [`targets.${metric}.target`, target],
+    [`targets.${metric}.met`, met],
+  ]),
+  ["passed", targets.every(target => target.met)],
+];
+
+/**
+ * JSON prints a single run as an object and several as an array; CSV prints
+ * one row per run, with the scenario's targets after the results.
+ */
+export const formatOutputs = (outputs: RunOutput[], format: OutputFormat): string => {
+  if (format === "json") return JSON.stringify(outputs.length === 1 ? outputs[0] : outputs, null, 2);
+  const rows = outputs.map(({ id, results, targets }) => [
+    ["id", id] as [string, unknown],
+    ...flatten(results),
+    ...targetColumns(targets),
+  ]);
+  const header = rows[0].map(([key]) => key);
+  return [header, ...rows.map(row => row.map(([, value]) => value))].map(row => row.map(csvCell).join(",")).join("\n");
+};
@@ -0,0 +1,31 @@
+// Entry point of `npm run simulate`; see SIMULATE_USAGE for the options.
+
+import { readFileSync } from "node:fs";
+import {
+  SIMULATE_USAGE,
+  buildRuns,
+  formatOutputs,
+  parseSimulateArgs,
+  simulateReplay,
+  simulateRuns,
+  type ReadFile,
+} from "./simulate-runs";
+
+const main = () => {
+  const options = parseSimulateArgs(process.argv.slice(2));
+  if (options.help) {
+    console.log(SIMULATE_USAGE);
+    return;
+  }
+  const readFile: ReadFile = path => readFileSync(path, "utf8");
+  const outputs = options.replay ? [simulateReplay(options, readFile)] : simulateRuns(buildRuns(options, readFile));
+  console.log(formatOutputs(outputs, options.format));
+};
+
+try {
+  main();
+} catch (error) {
+  console.error(`simulate: ${(error as Error).message}`);
+  console.error("Run with --help for usage.");
+  process.exitCode = 1;
+}
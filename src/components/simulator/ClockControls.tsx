@@ -0,0 +1,53 @@
+import { FC } from 'react';
+import { Pause, Play } from 'lucide-react';
+import { CLOCK_SPEEDS, ClockSpeed } from '@/lib/simulation/clock';
+
+interface ClockControlsProps {
+  paused: boolean;
+  speed: ClockSpeed;
+  onPause: () => void;
+  onResume: () => void;
+  onSpeedChange: (speed: ClockSpeed) => void;
+}
+
+const ClockControls: FC<ClockControlsProps> = ({ paused, speed, onPause, onResume, onSpeedChange }) => (
+  <>
+    {paused && (
+      <div className="fixed inset-0 z-40 bg-slate-950/70 backdrop-blur-sm flex items-center justify-center animate-fade-in">
+        <div className="text-center">
+          <h2 className="text-3xl sm:text-5xl font-black title-font tracking-wider mb-6">PAUSED</h2>
+          <button
+            onClick={onResume}
+            className="bg-red-500 hover:bg-red-600 text-white font-bold py-3 px-8 rounded-xl text-base sm:text-lg title-font transition-all duration-300 hover:scale-105 inline-flex items-center gap-3"
+          >
+            <Play className="w-5 h-5" fill="white" />
+            RESUME
+          </button>
+        </div>
+      </div>
+    )}
+    
+    <div className="fixed top-3 right-3 z-50 flex items-center gap-1 card p-1.5">
+      <button
+        onClick={paused ? onResume : onPause}
+        aria-label={paused ? 'Resume' : 'Pause'}
+        className="w-8 h-8 sm:w-9 sm:h-9 rounded-lg bg-slate-800 hover:bg-slate-700 flex items-center justify-center transition-colors"
+      >
+        {paused ? <Play className="w-4 h-4" fill="white" /> : <Pause className="w-4 h-4" />}
+      </button>
+      {CLOCK_SPEEDS.map((option) => (
+        <button
+          key={option}
+          onClick={() => onSpeedChange(option)}
+          className={`h-8 sm:h-9 px-2 sm:px-3 rounded-lg text-[10px] sm:text-xs font-bold title-font transition-colors ${
+            speed === option ? 'bg-red-500 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+          }`}
+        >
+          {option}x
+        </button>
+      ))}
+    </div>
+  </>
+);
+
+export default ClockControls;
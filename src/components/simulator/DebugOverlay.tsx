@@ -0,0 +1,155 @@
+import { FC, FormEvent, ReactNode, useState } from 'react';
+import { Bug, FastForward, X } from 'lucide-react';
+import { getTotalSorted, type SimulationState } from '@/lib/simulation/engine';
+import { getProduct } from '@/lib/simulation/products';
+import { parseSeed } from '@/lib/simulation/random';
+
+interface DebugOverlayProps {
+  state: SimulationState;
+  stages: { id: string; title: string }[];
+  /** Whether the current stage has a timer running that can be fast-forwarded. */
+  timerRunning: boolean;
+  onJump: (stageId: string) => void;
+  onReseed: (seed: number) => void;
+  onFastForward: (seconds: number) => void;
+  onClose: () => void;
+}
+
+const Section: FC<{ title: string; children: ReactNode }> = ({ title, children }) => (
+  <div className="border-t border-slate-700 pt-2 mt-2">
+    <p className="text-[10px] font-bold tracking-wider text-red-400 mb-1">{title}</p>
+    {children}
+  </div>
+);
+
+const Row: FC<{ label: string; value: ReactNode }> = ({ label, value }) => (
+  <div className="flex justify-between gap-3">
+    <span className="text-slate-400">{label}</span>
+    <span className="text-right break-all">{value}</span>
+  </div>
+);
+
+const FAST_FORWARD_STEPS = [1, 5, 30];
+
+const DebugOverlay: FC<DebugOverlayProps> = ({ state, stages, timerRunning, onJump, onReseed, onFastForward, onClose }) => {
+  const [seedInput, setSeedInput] = useState(String(state.seed));
+  const { sorting, cooling } = state;
+
+  const submitSeed = (event: FormEvent) => {
+    event.preventDefault();
+    const seed = parseSeed(seedInput);
+    if (seed !== null) onReseed(seed);
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Debug overlay"
+      className="fixed bottom-3 right-3 z-[60] w-80 max-h-[85vh] overflow-y-auto bg-slate-900/95 border border-slate-700 rounded-xl p-3 font-mono text-[11px] shadow-2xl"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center gap-1.5 font-bold text-red-400">
+          <Bug className="w-3.5 h-3.5" /> DEBUG
+        </span>
+        <button onClick={onClose} aria-label="Close debug overlay" className="text-slate-400 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <Row label="stage" value={state.stage} />
+      <Row label="seed" value={state.seed} />
+      <Row label="scenario" value={state.scenario.id} />
+      <Row label="plasticRatio" value={`${state.plasticRatio.toFixed(1)}%`} />
+      <Row label="feed" value={state.feed.map(({ id, share }) => `${id} ${share}%`).join(', ')} />
+
+      <Section title="JUMP TO STAGE">
+        <div className="flex flex-wrap gap-1">
+          {stages.map(stage => (
+            <button
+              key={stage.id}
+              onClick={() => onJump(stage.id)}
+              title={stage.title}
+              className={`px-1.5 py-0.5 rounded border ${
+                stage.id === state.stage ? 'border-red-500 text-red-400' : 'border-slate-600 hover:border-slate-400'
+              }`}
+            >
+              {stage.id}
+            </button>
+          ))}
+        </div>
+      </Section>
+
+      <Section title="SEED">
+        <form onSubmit={submitSeed} className="flex gap-1">
+          <input
+            value={seedInput}
+            onChange={event => setSeedInput(event.target.value)}
+            aria-label="Seed"
+            className="flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5"
+          />
+          <button type="submit" className="px-1.5 py-0.5 rounded border border-slate-600 hover:border-slate-400">
+            restart
+          </button>
+        </form>
+      </Section>
+
+      <Section title="TIMERS">
+        <div className="flex gap-1">
+          {FAST_FORWARD_STEPS.map(seconds => (
+            <button
+              key={seconds}
+              onClick={() => onFastForward(seconds)}
+              disabled={!timerRunning}
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded border border-slate-600 hover:border-slate-400 disabled:opacity-40"
+            >
+              <FastForward className="w-3 h-3" /> {seconds}s
+            </button>
+          ))}
+        </div>
+      </Section>
+
+      <Section title="HEAT GRID">
+        <div className="grid gap-px" style={{ gridTemplateColumns: `repeat(${state.heatGrid.length}, minmax(0, 1fr))` }}>
+          {state.heatGrid.flatMap((row, rowIdx) =>
+            row.map((heat, colIdx) => (
+              <span key={`${rowIdx}-${colIdx}`} className="text-center text-[9px] bg-slate-800" style={{ color: heat > 0 ? '#f87171' : undefined }}>
+                {Math.round(heat)}
+              </span>
+            )),
+          )}
+        </div>
+      </Section>
+
+      <Section title="SORTING">
+        <Row label="spawned" value={`${sorting.totalSpawned} / ${sorting.queue.length}`} />
+        <Row label="on belt" value={sorting.spawned.length} />
+        <Row label="sorted / losses" value={`${getTotalSorted(sorting)} / ${sorting.losses}`} />
+        <Row label="elapsed" value={`${sorting.elapsed.toFixed(1)}s`} />
+        <p className="text-slate-400 mt-1">queue</p>
+        <p className="break-all">
+          {sorting.queue.map((type, idx) => (
+            <span key={idx} className={idx < sorting.totalSpawned ? 'text-slate-500' : undefined}>
+              {getProduct(type).shortLabel}{' '}
+            </span>
+          ))}
+        </p>
+      </Section>
+
+      <Section title="COOLING">
+        <Row label="started" value={String(cooling.started)} />
+        <Row label="time" value={`${cooling.time.toFixed(1)}s`} />
+        <Row label="gasTemp" value={`${cooling.gasTemp.toFixed(1)}°C`} />
+        <Row label="condensedFuel" value={cooling.condensedFuel.toFixed(2)} />
+        <Row label="power" value={`${cooling.power}%`} />
+      </Section>
+
+      {Object.keys(state.plugins).length > 0 && (
+        <Section title="PLUGINS">
+          <pre className="whitespace-pre-wrap break-all">{JSON.stringify(state.plugins, null, 1)}</pre>
+        </Section>
+      )}
+    </div>
+  );
+};
+
+export default DebugOverlay;
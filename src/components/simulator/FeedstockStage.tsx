@@ -0,0 +1,312 @@
+import { FC, useState } from 'react';
+import { Zap, Leaf, Info, Package, Plus, X, Scale, Droplets, Ruler } from 'lucide-react';
+import { analytics } from '@/lib/simulation/analytics';
+import { setFeed } from '@/lib/simulation/engine';
+import {
+  FEEDSTOCKS,
+  MAX_MOISTURE,
+  MAX_PARTICLE_SIZE,
+  analyzeMix,
+  getComponentMoisture,
+  getComponentParticleSize,
+  getFeedstock,
+  getMixTotal,
+  isMixComplete,
+  normalizeMix,
+  type FeedComponent,
+  type FeedMix,
+  type FeedstockId,
+} from '@/lib/simulation/feedstocks';
+import { getHeatDemand, getHeatingRate } from '@/lib/simulation/heatup';
+import { createStream } from '@/lib/simulation/random';
+import type { StageProps } from './types';
+
+const PROXIMATE_ROWS = [
+  { key: 'moisture', label: 'Moisture' },
+  { key: 'volatileMatter', label: 'Volatile matter' },
+  { key: 'fixedCarbon', label: 'Fixed carbon' },
+  { key: 'ash', label: 'Ash' },
+] as const;
+
+const ULTIMATE_ELEMENTS = ['C', 'H', 'O', 'N', 'S', 'Cl'] as const;
+
+/** Shares are edited to one decimal. */
+const roundShare = (value: number) => Math.round(value * 10) / 10;
+
+const FeedstockParticles: FC<{ seed: number; mix: FeedMix }> = ({ seed, mix }) => {
+  const particles: JSX.Element[] = [];
+  const particleCount = 40;
+  const random = createStream(seed, 'feedstock');
+  const total = getMixTotal(mix);
+  for (let i = 0; i < particleCount; i++) {
+    // Each component gets particles in proportion to its share
+    let cumulative = 0;
+    const component = mix.find(({ share }) => (cumulative += share) / total > i / particleCount);
+    particles.push(
+      <div
+        key={i}
+        className="absolute w-2 h-2 sm:w-2.5 sm:h-2.5 rounded-full transition-colors duration-300"
+        style={{
+          left: `${10 + random() * 80}%`,
+          top: `${5 + random() * 60}%`,
+          animation: `float ${3 + random() * 2}s ease-in-out infinite`,
+          animationDelay: `${random() * 2}s`,
+          opacity: component ? 0.7 + random() * 0.3 : 0,
+          backgroundColor: component ? getFeedstock(component.id).color : undefined
+        }}
+      />
+    );
+  }
+  return <>{particles}</>;
+};
+
+const FeedstockStage: FC<StageProps> = ({ state, dispatch, title, level, canAdvance, onAdvance }) => {
+  const { feed, plasticRatio } = state;
+  const total = getMixTotal(feed);
+  const complete = isMixComplete(feed);
+  const { proximate, ultimate } = analyzeMix(feed);
+  const { peakTemperature } = state.scenario.stages.heating;
+  const demand = getHeatDemand(feed, peakTemperature);
+  const heatingRate = getHeatingRate(feed, peakTemperature);
+  const available = FEEDSTOCKS.filter(feedstock => !feed.some(component => component.id === feedstock.id));
+  const [selected, setSelected] = useState<FeedstockId | ''>('');
+  const adding = available.some(feedstock => feedstock.id === selected) ? (selected as FeedstockId) : available[0]?.id;
+
+  const updateFeed = (mix: FeedMix) => {
+    const next = setFeed(state, mix);
+    analytics.track('feedstockChanged', { plasticRatio: next.plasticRatio, mix: next.feed });
+    dispatch({ type: 'setFeed', mix });
+  };
+
+  const updateComponent = (id: FeedstockId, patch: Partial<FeedComponent>) =>
+    updateFeed(feed.map(component => (component.id === id ? { ...component, ...patch } : component)));
+
+  const handleShareChange = (id: FeedstockId, val: string) => updateComponent(id, { share: roundShare(parseFloat(val) || 0) });
+
+  // A cleared field goes back to the catalog's typical value
+  const handlePropertyChange = (id: FeedstockId, key: 'moisture' | 'particleSize', val: string) => {
+    const value = parseFloat(val);
+    updateComponent(id, { [key]: Number.isNaN(value) ? undefined : value });
+  };
+
+  const handleAdd = () => {
+    if (!adding) return;
+    updateFeed([...feed, { id: adding, share: roundShare(Math.max(0, 100 - total)) }]);
+    setSelected('');
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 sm:p-8">
+      <div className="max-w-5xl w-full">
+        <div className="card p-4 sm:p-8 animate-fade-in">
+          <div className="flex items-center gap-3 mb-2">
+            <Zap className="w-6 h-6 sm:w-7 sm:h-7 text-red-500" />
+            <h2 className="text-xl sm:text-2xl md:text-3xl font-bold title-font">Level {level}: {title}</h2>
+          </div>
+          <p className="text-slate-400 text-sm sm:text-base mb-6 sm:mb-8">Mix your waste stream from the feedstock catalog. Different inputs affect the final output yields.</p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 sm:gap-8">
+            {/* Left: Composition editor */}
+            <div className="space-y-5 sm:space-y-6">
+              {feed.map(component => {
+                const { id, share } = component;
+                const feedstock = getFeedstock(id);
+                const FamilyIcon = feedstock.family === 'plastic' ? Package : Leaf;
+                return (
+                  <div key={id}>
+                    <div className="flex items-center justify-between gap-2 mb-2">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <FamilyIcon className="w-5 h-5 flex-shrink-0" style={{ color: feedstock.color }} />
+                        <span className="font-semibold text-sm sm:text-base truncate" style={{ color: feedstock.color }}>{feedstock.label}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.1"
+                          value={share}
+                          onChange={(e) => handleShareChange(id, e.target.value)}
+                          aria-label={`${feedstock.label} share`}
+                          className="w-16 text-right text-lg sm:text-xl font-bold title-font bg-transparent border-b border-slate-500/50 focus:border-slate-300 outline-none text-white"
+                        />
+                        <span className="text-lg sm:text-xl font-bold title-font">%</span>
+                        <button
+                          onClick={() => updateFeed(feed.filter(component => component.id !== id))}
+                          aria-label={`Remove ${feedstock.label}`}
+                          className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-700 transition-colors"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max="100"
+                      step="0.5"
+                      value={share}
+                      onChange={(e) => handleShareChange(id, e.target.value)}
+                      className="w-full"
+                      style={{
+                        background: `linear-gradient(to right, ${feedstock.color} 0%, ${feedstock.color} ${share}%, #334155 ${share}%, #334155 100%)`,
+                        color: feedstock.color
+                      }}
+                    />
+                    <div className="flex items-center gap-4 mt-1.5 text-[10px] sm:text-xs font-bold title-font tracking-wider text-slate-400">
+                      <label className="flex items-center gap-1.5">
+                        <Droplets className="w-3.5 h-3.5 text-sky-400" />
+                        MOISTURE
+                        <input
+                          type="number"
+                          min="0"
+                          max={MAX_MOISTURE}
+                          step="1"
+                          value={getComponentMoisture(component)}
+                          onChange={(e) => handlePropertyChange(id, 'moisture', e.target.value)}
+                          className="w-12 text-right text-xs sm:text-sm bg-transparent border-b border-slate-600 focus:border-slate-300 outline-none text-white"
+                        />
+                        %
+                      </label>
+                      <label className="flex items-center gap-1.5">
+                        <Ruler className="w-3.5 h-3.5 text-amber-400" />
+                        PARTICLES
+                        <input
+                          type="number"
+                          min="0"
+                          max={MAX_PARTICLE_SIZE}
+                          step="1"
+                          value={getComponentParticleSize(component)}
+                          onChange={(e) => handlePropertyChange(id, 'particleSize', e.target.value)}
+                          className="w-12 text-right text-xs sm:text-sm bg-transparent border-b border-slate-600 focus:border-slate-300 outline-none text-white"
+                        />
+                        MM
+                      </label>
+                    </div>
+                  </div>
+                );
+              })}
+
+              {available.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <select
+                    value={adding}
+                    onChange={(e) => setSelected(e.target.value as FeedstockId)}
+                    aria-label="Feedstock to add"
+                    className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-slate-500"
+                  >
+                    {available.map(feedstock => (
+                      <option key={feedstock.id} value={feedstock.id}>{feedstock.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleAdd}
+                    className="flex items-center gap-1.5 bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-3 rounded-lg text-sm title-font transition-colors"
+                  >
+                    <Plus className="w-4 h-4" />
+                    ADD
+                  </button>
+                </div>
+              )}
+
+              {/* Total */}
+              <div className="flex items-center justify-between gap-3 border-t border-slate-700 pt-4">
+                <div>
+                  <div className="text-xs sm:text-sm font-bold title-font tracking-wider text-slate-400">TOTAL</div>
+                  <div className={`text-2xl sm:text-3xl font-bold title-font ${complete ? 'text-emerald-400' : 'text-red-400'}`}>
+                    {total.toFixed(1)}%
+                  </div>
+                </div>
+                <button
+                  onClick={() => updateFeed(normalizeMix(feed))}
+                  disabled={complete || total <= 0}
+                  className="flex items-center gap-1.5 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed text-white font-bold py-2 px-3 rounded-lg text-sm title-font transition-colors"
+                >
+                  <Scale className="w-4 h-4" />
+                  SCALE TO 100%
+                </button>
+              </div>
+
+              {/* Info box */}
+              <div className="card-inner p-4 sm:p-5">
+                <div className="flex items-start gap-3">
+                  <Info className="w-5 h-5 text-red-400 mt-0.5 flex-shrink-0" />
+                  <div className="text-xs sm:text-sm text-slate-300">
+                    <p className="mb-1"><span className="text-blue-400 font-semibold">Plastics</span> result in higher liquid fuel recovery but less char.</p>
+                    <p className="mb-1"><span className="text-emerald-400 font-semibold">Biomass</span> produces more biochar and syngas, with lower liquid fuel.</p>
+                    <p><span className="text-sky-400 font-semibold">Water</span> has to boil off before pyrolysis starts and ends up in the aqueous condensate. Drying and shredding the feed first pays off.</p>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Right: Reactor and feed analysis */}
+            <div className="relative">
+              <div className="card-inner h-48 sm:h-60 overflow-hidden relative">
+                <FeedstockParticles seed={state.seed} mix={feed} />
+              </div>
+              {/* Funnel */}
+              <div className="flex justify-center mt-[-1px]">
+                <svg width="120" height="60" viewBox="0 0 120 60" className="text-slate-700">
+                  <path d="M10,0 L110,0 L75,50 L45,50 Z" fill="currentColor" stroke="#475569" strokeWidth="1.5" />
+                </svg>
+              </div>
+
+              <div className="card-inner p-4 sm:p-5 mt-2">
+                <div className="flex justify-between mb-3 text-xs sm:text-sm font-bold title-font tracking-wider">
+                  <span className="text-blue-400">{plasticRatio.toFixed(0)}% PLASTIC</span>
+                  <span className="text-emerald-400">{(100 - plasticRatio).toFixed(0)}% BIOMASS</span>
+                </div>
+                <div className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-slate-400 mb-1.5">PROXIMATE (AS RECEIVED)</div>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs sm:text-sm mb-3">
+                  {PROXIMATE_ROWS.map(({ key, label }) => (
+                    <div key={key} className="flex justify-between">
+                      <span className="text-slate-400">{label}</span>
+                      <span className="font-bold title-font">{proximate[key].toFixed(1)}%</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-slate-400 mb-1.5">ULTIMATE (DRY, ASH-FREE)</div>
+                <div className="grid grid-cols-6 gap-1 text-center mb-3">
+                  {ULTIMATE_ELEMENTS.map(element => (
+                    <div key={element}>
+                      <div className="text-[10px] sm:text-xs text-slate-400">{element}</div>
+                      <div className="text-xs sm:text-sm font-bold title-font">{ultimate[element].toFixed(1)}</div>
+                    </div>
+                  ))}
+                </div>
+                <div className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-slate-400 mb-1.5">HEAT DEMAND</div>
+                <div className="flex h-2 sm:h-2.5 bg-slate-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-orange-500 transition-all duration-300" style={{ width: `${demand.total > 0 ? (demand.heating / demand.total) * 100 : 0}%` }} />
+                  <div className="h-full bg-sky-400 transition-all duration-300" style={{ width: `${demand.total > 0 ? (demand.drying / demand.total) * 100 : 0}%` }} />
+                </div>
+                <div className="flex justify-between mt-1.5 text-[10px] sm:text-xs title-font tracking-wider">
+                  <span className="text-orange-400">HEATING {demand.heating.toFixed(0)} kWh/t</span>
+                  <span className="text-sky-400">DRYING {demand.drying.toFixed(0)} kWh/t</span>
+                </div>
+                <div className="flex justify-between mt-2 text-xs sm:text-sm">
+                  <span className="text-slate-400">Heat-up rate</span>
+                  <span className={`font-bold title-font ${heatingRate < 0.5 ? 'text-red-400' : ''}`}>{(heatingRate * 100).toFixed(0)}%</span>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <button
+          onClick={onAdvance}
+          disabled={!canAdvance}
+          className={`w-full mt-4 sm:mt-6 font-bold py-3 sm:py-4 px-8 rounded-xl text-base sm:text-lg title-font transition-all duration-300 ${
+            canAdvance
+              ? 'bg-red-500 hover:bg-red-600 text-white hover:scale-[1.02]'
+              : 'bg-slate-800 text-slate-500 cursor-not-allowed border border-slate-700'
+          }`}
+        >
+          {canAdvance ? 'START PROCESS' : `MIX TO 100% TO START (${total.toFixed(1)}%)`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FeedstockStage;
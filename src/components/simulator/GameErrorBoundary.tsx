@@ -0,0 +1,151 @@
+import { Component, ErrorInfo, FC, Fragment, ReactNode } from 'react';
+import { AlertTriangle, Download, History, RotateCcw } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { buildDiagnosticReport, gameEvents } from '@/lib/simulation/diagnostics';
+import type { SimulationState } from '@/lib/simulation/engine';
+import { createStageMachine } from '@/lib/simulation/machine';
+import { clearActiveScenario, clearRun, getBrowserStorage, loadRun } from '@/lib/simulation/persistence';
+import { downloadJson } from '@/lib/download';
+import { getStageOrder, getStagePath, getStageRegistry } from './stages';
+import type { StageRegistration } from './types';
+
+interface CrashScreenProps {
+  error: Error;
+  componentStack: string | null;
+  onRecover: () => void;
+}
+
+const CrashScreen: FC<CrashScreenProps> = ({ error, componentStack, onRecover }) => {
+  const navigate = useNavigate();
+  const saved = loadRun(getBrowserStorage());
+  
+  const restoreSnapshot = () => {
+    if (!saved) return;
+    gameEvents.record('crash-restore', { stage: saved.state.stage });
+    // Same stage flow the simulator builds for the saved scenario, so the route matches its own
+    const registry = getStageRegistry();
+    const machine = createStageMachine<SimulationState, StageRegistration>(
+      registry,
+      getStageOrder(registry, saved.state.scenario.levels),
+    );
+    navigate(getStagePath(machine, saved.state.stage), { replace: true });
+    onRecover();
+  };
+  
+  const startOver = () => {
+    gameEvents.record('crash-start-over');
+    // The chosen scenario may be what crashed the game; start over from the standard mission
+    const storage = getBrowserStorage();
+    clearRun(storage);
+    clearActiveScenario(storage);
+    navigate('/', { replace: true });
+    onRecover();
+  };
+  
+  const downloadDiagnostics = () => {
+    const report = buildDiagnosticReport({
+      error,
+      componentStack,
+      snapshot: saved?.state ?? null,
+      events: gameEvents.entries(),
+      location: window.location.href,
+      userAgent: navigator.userAgent,
+    });
+    downloadJson(report, `pyrolysis-diagnostics-${report.seed ?? 'unsaved'}.json`);
+  };
+  
+  return (
+    <div className="min-h-screen bg-slate-950 text-white flex items-center justify-center p-4 sm:p-8">
+      <div className="max-w-lg w-full text-center">
+        <div className="inline-flex items-center justify-center w-16 h-16 mb-6 bg-slate-900 border border-red-500/30 rounded-2xl">
+          <AlertTriangle className="w-8 h-8 text-red-500" />
+        </div>
+        <h1 className="text-2xl sm:text-3xl font-black tracking-wider mb-3">REACTOR MALFUNCTION</h1>
+        <p className="text-slate-400 text-sm sm:text-base mb-8">
+          Something went wrong and the mission stopped. {saved
+            ? 'Your progress was saved just before, so you can pick up from there.'
+            : 'No saved progress was found, so the mission has to start again.'}
+        </p>
+        
+        <div className="flex flex-col gap-3">
+          {saved && (
+            <button
+              onClick={restoreSnapshot}
+              className="bg-red-500 hover:bg-red-600 text-white font-bold py-3 px-8 rounded-xl inline-flex items-center justify-center gap-3 transition-colors"
+            >
+              <History className="w-5 h-5" />
+              RESTORE LAST SAVE
+            </button>
+          )}
+          <button
+            onClick={startOver}
+            className="bg-slate-800 hover:bg-slate-700 border border-slate-600 text-white font-bold py-3 px-8 rounded-xl inline-flex items-center justify-center gap-3 transition-colors"
+          >
+            <RotateCcw className="w-5 h-5" />
+            START OVER
+          </button>
+          <button
+            onClick={downloadDiagnostics}
+            className="text-slate-400 hover:text-white text-sm font-bold py-2 inline-flex items-center justify-center gap-2 transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Download diagnostics for a bug report
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface GameErrorBoundaryProps {
+  children: ReactNode;
+}
+
+interface GameErrorBoundaryState {
+  error: Error | null;
+  componentStack: string | null;
+  /** Bumped on recovery so the game remounts from scratch. */
+  attempt: number;
+}
+
+// Catches render errors anywhere in the game and offers a way back instead of a blank page.
+class GameErrorBoundary extends Component<GameErrorBoundaryProps, GameErrorBoundaryState> {
+  state: GameErrorBoundaryState = { error: null, componentStack: null, attempt: 0 };
+  
+  static getDerivedStateFromError(error: Error): Partial<GameErrorBoundaryState> {
+    return { error };
+  }
+  
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    gameEvents.record('crash', { message: error.message });
+    this.setState({ componentStack: info.componentStack ?? null });
+  }
+  
+  componentDidMount() {
+    window.addEventListener('error', this.recordUncaught);
+    window.addEventListener('unhandledrejection', this.recordRejection);
+  }
+  
+  componentWillUnmount() {
+    window.removeEventListener('error', this.recordUncaught);
+    window.removeEventListener('unhandledrejection', this.recordRejection);
+  }
+  
+  // Errors thrown from event handlers never reach the boundary; keep them for the report
+  recordUncaught = (event: ErrorEvent) => gameEvents.record('uncaught-error', { message: event.message });
+  
+  recordRejection = (event: PromiseRejectionEvent) =>
+    gameEvents.record('unhandled-rejection', { message: String(event.reason) });
+  
+  recover = () => this.setState(({ attempt }) => ({ error: null, componentStack: null, attempt: attempt + 1 }));
+  
+  render() {
+    const { error, componentStack, attempt } = this.state;
+    if (error) {
+      return <CrashScreen error={error} componentStack={componentStack} onRecover={this.recover} />;
+    }
+    return <Fragment key={attempt}>{this.props.children}</Fragment>;
+  }
+}
+
+export default GameErrorBoundary;
@@ -0,0 +1,247 @@
+import { FC, TouchEvent, useMemo, useState } from 'react';
+import { Flame, Thermometer, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { analytics } from '@/lib/simulation/analytics';
+import { getChlorineReport, getMixChlorine } from '@/lib/simulation/chlorine';
+import { calculateHeatMetrics, getFeedYields, heatCell } from '@/lib/simulation/engine';
+import { getEvaporatedShare, getHeatingRate, getMixMoisture } from '@/lib/simulation/heatup';
+import { getCellTemperature, getReactionProfile } from '@/lib/simulation/kinetics';
+import { PRODUCTS, PRODUCT_PHASES, type ProductPhase } from '@/lib/simulation/products';
+import { getHeatColor } from './heatColors';
+import type { StageProps } from './types';
+
+const PHASE_STYLES: Record<ProductPhase, { label: string; color: string }> = {
+  vapour: { label: 'VAPOUR', color: '#eab308' },
+  gas: { label: 'GAS', color: '#c084fc' },
+  solid: { label: 'CHAR', color: '#94a3b8' },
+};
+
+const STEAM_STYLE = { label: 'STEAM', color: '#38bdf8' };
+
+const HeatingStage: FC<StageProps> = ({ state, dispatch, title, level, canAdvance, onAdvance }) => {
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const { heatGrid } = state;
+  const heatMetrics = calculateHeatMetrics(heatGrid);
+  const { threshold, residenceTime, peakTemperature } = state.scenario.stages.heating;
+  const { feed, plasticRatio, scenario } = state;
+
+  // What the reactor would make of the feed if it were held at the current heat
+  const profile = useMemo(
+    () => getReactionProfile(heatGrid, plasticRatio, getFeedYields(feed, scenario), scenario),
+    [heatGrid, plasticRatio, feed, scenario],
+  );
+  const outcome = profile[profile.length - 1];
+  // The kinetics describe the dry feed; its water leaves as steam wherever the reactor passed 100 °C
+  const moisture = getMixMoisture(feed);
+  const phaseShares = [
+    ...PRODUCT_PHASES.map(phase => ({
+      key: phase,
+      ...PHASE_STYLES[phase],
+      share:
+        (1 - moisture) *
+        PRODUCTS.filter(product => product.phase === phase).reduce((sum, product) => sum + outcome.products[product.id], 0),
+    })),
+    { key: 'steam', ...STEAM_STYLE, share: moisture * getEvaporatedShare(heatGrid, scenario) },
+  ];
+  const reactorGas = phaseShares.filter(({ key }) => key !== 'solid').reduce((sum, { share }) => sum + share, 0);
+  const steamShare = reactorGas > 0 ? phaseShares[phaseShares.length - 1].share / reactorGas : 0;
+  const heatingRate = getHeatingRate(feed, peakTemperature);
+  const feedChlorine = getMixChlorine(feed);
+  const chlorine = getChlorineReport(state, 0);
+
+  const handleDechlorinationToggle = () => {
+    analytics.track('dechlorinationToggled', { enabled: !state.dechlorination, feedChlorine });
+    dispatch({ type: 'setDechlorination', enabled: !state.dechlorination });
+  };
+  const averageTemperature = getCellTemperature(heatMetrics.averageHeat, scenario);
+  
+  const handleCellInteraction = (row: number, col: number) => {
+    // Passing over a cell that is already at full heat changes nothing
+    const heat = heatCell(state, row, col).heatGrid[row][col];
+    if (heat === state.heatGrid[row][col]) return;
+    analytics.track('cellHeated', { row, col, heat });
+    dispatch({ type: 'heatCell', row, col });
+  };
+  
+  const handleMouseDown = (row: number, col: number) => {
+    setIsDragging(true);
+    handleCellInteraction(row, col);
+  };
+  
+  const handleMouseEnter = (row: number, col: number) => {
+    if (isDragging || state.stage === 'heating') {
+      handleCellInteraction(row, col);
+    }
+  };
+  
+  const handleMouseUp = () => {
+    setIsDragging(false);
+  };
+  
+  // Touch handlers for heat grid
+  const handleTouchGrid = (e: TouchEvent<HTMLDivElement>) => {
+    const touch = e.touches[0];
+    const el = document.elementFromPoint(touch.clientX, touch.clientY) as HTMLElement;
+    if (el && el.dataset.row !== undefined) {
+      handleCellInteraction(parseInt(el.dataset.row), parseInt(el.dataset.col!));
+    }
+  };
+  
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 sm:p-8">
+      <div className="max-w-4xl w-full">
+        <div className="card p-4 sm:p-8 animate-fade-in">
+          <div className="flex items-center gap-3 mb-2">
+            <Flame className="w-6 h-6 sm:w-7 sm:h-7 text-orange-400" />
+            <h2 className="text-xl sm:text-2xl md:text-3xl font-bold title-font">Level {level}: {title}</h2>
+          </div>
+          <p className="text-slate-400 text-sm sm:text-base mb-6 sm:mb-8">Tap or drag across the reactor to heat it evenly. Volumetric heating is the key!</p>
+          
+          {/* Grid */}
+          <div className="relative max-w-lg mx-auto mb-6 sm:mb-8">
+            <div className="absolute -top-3 right-4 z-10 flex items-center gap-2 bg-slate-800 border border-slate-600 rounded-full px-3 sm:px-4 py-1 sm:py-1.5">
+              <Thermometer className="w-3 h-3 sm:w-4 sm:h-4 text-orange-400" />
+              <span className="text-[10px] sm:text-sm font-bold title-font tracking-wider">REACTOR CORE</span>
+            </div>
+            <div 
+              className="grid gap-0.5 p-2 sm:p-3 card-inner select-none touch-none"
+              style={{ gridTemplateColumns: `repeat(${heatGrid.length}, minmax(0, 1fr))` }}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={handleMouseUp}
+              onTouchMove={handleTouchGrid}
+            >
+              {heatGrid.map((row, rowIdx) => (
+                row.map((cell, colIdx) => (
+                  <div
+                    key={`${rowIdx}-${colIdx}`}
+                    data-row={rowIdx}
+                    data-col={colIdx}
+                    className="aspect-square rounded-sm cursor-pointer transition-colors duration-200 hover:brightness-125"
+                    style={{ backgroundColor: getHeatColor(cell) }}
+                    onMouseDown={() => handleMouseDown(rowIdx, colIdx)}
+                    onMouseEnter={() => handleMouseEnter(rowIdx, colIdx)}
+                    onTouchStart={() => handleCellInteraction(rowIdx, colIdx)}
+                  />
+                ))
+              ))}
+            </div>
+          </div>
+          
+          {/* Progress bars */}
+          <div className="max-w-lg mx-auto space-y-3 sm:space-y-4">
+            <div>
+              <div className="flex justify-between mb-1.5">
+                <span className="text-xs sm:text-sm font-bold title-font tracking-wider text-slate-400">OVERALL HEAT</span>
+                <span className="text-xs sm:text-sm font-bold title-font">{heatMetrics.completeness.toFixed(0)}%</span>
+              </div>
+              <div className="h-2.5 sm:h-3 bg-slate-800 rounded-full overflow-hidden">
+                <div 
+                  className="h-full rounded-full transition-all duration-300"
+                  style={{ 
+                    width: `${heatMetrics.completeness}%`,
+                    background: 'linear-gradient(to right, #f97316, #eab308)'
+                  }}
+                />
+              </div>
+            </div>
+            
+            <div>
+              <div className="flex justify-between mb-1.5">
+                <span className="text-xs sm:text-sm font-bold title-font tracking-wider text-slate-400">UNIFORMITY SCORE</span>
+                <span className="text-xs sm:text-sm font-bold title-font">{heatMetrics.uniformity.toFixed(0)}%</span>
+              </div>
+              <div className="h-2.5 sm:h-3 bg-slate-800 rounded-full overflow-hidden">
+                <div 
+                  className="h-full rounded-full transition-all duration-300"
+                  style={{ 
+                    width: `${heatMetrics.uniformity}%`,
+                    background: 'linear-gradient(to right, #ef4444, #f43f5e)'
+                  }}
+                />
+              </div>
+            </div>
+            
+            <div>
+              <div className="flex justify-between mb-1.5">
+                <span className="text-xs sm:text-sm font-bold title-font tracking-wider text-slate-400">PREDICTED CONVERSION</span>
+                <span className="text-xs sm:text-sm font-bold title-font">{(outcome.conversion * 100).toFixed(0)}%</span>
+              </div>
+              <svg viewBox="0 0 100 24" preserveAspectRatio="none" className="w-full h-8 sm:h-10 card-inner" aria-label="Conversion over the residence time">
+                <polyline
+                  fill="none"
+                  stroke="#f97316"
+                  strokeWidth="1.5"
+                  vectorEffect="non-scaling-stroke"
+                  points={profile.map(sample => `${(sample.time / residenceTime) * 100},${22 - sample.conversion * 20}`).join(' ')}
+                />
+              </svg>
+              <div className="flex justify-between mt-1 text-[10px] sm:text-xs text-slate-500">
+                <span>AVG {averageTemperature.toFixed(0)}°C</span>
+                <span>{(residenceTime / 60).toFixed(0)} MIN RESIDENCE</span>
+              </div>
+              <div className="flex h-2 sm:h-2.5 mt-2 bg-slate-800 rounded-full overflow-hidden">
+                {phaseShares.map(({ key, color, share }) => (
+                  <div key={key} className="h-full transition-all duration-300" style={{ width: `${share * 100}%`, backgroundColor: color }} />
+                ))}
+              </div>
+              <div className="flex justify-center gap-3 sm:gap-4 mt-1.5 text-[10px] sm:text-xs title-font tracking-wider">
+                {phaseShares.map(({ key, label, color, share }) => (
+                  <span key={key} style={{ color }}>
+                    {label} {(share * 100).toFixed(0)}%
+                  </span>
+                ))}
+              </div>
+              <div className="flex justify-between mt-1 text-[10px] sm:text-xs text-slate-500">
+                <span className={heatingRate < 0.5 ? 'text-red-400' : undefined}>HEAT-UP RATE {(heatingRate * 100).toFixed(0)}%</span>
+                <span>STEAM {(steamShare * 100).toFixed(0)}% OF REACTOR GAS</span>
+              </div>
+              {feedChlorine > 0 && (
+                <div className="flex items-center justify-between gap-3 mt-3 card-inner px-3 py-2">
+                  <div className="text-[10px] sm:text-xs title-font tracking-wider">
+                    <div className="text-slate-400">HCl RELEASED <span className="text-white font-bold">{chlorine.hclReleased.toFixed(1)} kg/t</span></div>
+                    <div className={chlorine.hclInGas > 1 ? 'text-red-400' : 'text-slate-500'}>
+                      {state.dechlorination ? `${chlorine.hclCaptured.toFixed(1)} kg/t SCRUBBED, ` : ''}{chlorine.hclInGas.toFixed(1)} kg/t TO THE GAS
+                    </div>
+                  </div>
+                  <button
+                    onClick={handleDechlorinationToggle}
+                    aria-pressed={state.dechlorination}
+                    className={`flex items-center gap-1.5 font-bold py-1.5 px-3 rounded-lg text-[10px] sm:text-xs title-font tracking-wider transition-colors ${
+                      state.dechlorination
+                        ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500/50'
+                        : 'bg-slate-800 text-slate-400 border border-slate-700 hover:text-white'
+                    }`}
+                  >
+                    {state.dechlorination ? <ShieldCheck className="w-4 h-4" /> : <ShieldAlert className="w-4 h-4" />}
+                    DECHLORINATION {state.dechlorination ? 'ON' : 'OFF'}
+                  </button>
+                </div>
+              )}
+            </div>
+            
+            <p className="text-center text-xs sm:text-sm title-font tracking-wider text-slate-500 mt-4">
+              {heatMetrics.completeness === 0 
+                ? 'TAP OR DRAG TO BEGIN HEATING...'
+                : heatMetrics.completeness < threshold
+                  ? `HEATING IN PROGRESS... ${heatMetrics.completeness.toFixed(0)}%`
+                  : 'HEATING COMPLETE'}
+            </p>
+          </div>
+        </div>
+        
+        <button
+          onClick={onAdvance}
+          disabled={!canAdvance}
+          className={`w-full mt-4 sm:mt-6 font-bold py-3 sm:py-4 px-8 rounded-xl text-base sm:text-lg title-font transition-all duration-300 ${
+            canAdvance
+              ? 'bg-red-500 hover:bg-red-600 text-white hover:scale-[1.02]'
+              : 'bg-slate-800 text-slate-500 cursor-not-allowed border border-slate-700'
+          }`}
+        >
+          {canAdvance ? 'PROCEED TO SORTING' : `HEAT TO ${threshold}% TO PROCEED`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HeatingStage;
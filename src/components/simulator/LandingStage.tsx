@@ -0,0 +1,93 @@
+import { FC } from 'react';
+import { Zap, Leaf, ArrowRight, Info, Play, RotateCcw } from 'lucide-react';
+import { DEFAULT_SCENARIO } from '@/lib/simulation/scenario';
+import { useAnalyticsConsent } from '@/hooks/use-analytics-consent';
+import ScenarioLibrary from './ScenarioLibrary';
+import type { StageProps } from './types';
+
+const LandingStage: FC<StageProps> = ({ state, onAdvance, onResume, onSelectScenario }) => {
+  const [analyticsConsent, setAnalyticsConsent] = useAnalyticsConsent();
+  
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 sm:p-8 gradient-mesh">
+      <div className="max-w-4xl w-full animate-fade-in text-center">
+        <div className="inline-flex items-center justify-center w-16 h-16 sm:w-20 sm:h-20 mb-6 sm:mb-8 bg-slate-900 border border-red-500/30 rounded-2xl animate-pulse-glow">
+          <Zap className="w-8 h-8 sm:w-10 sm:h-10 text-red-500" strokeWidth={2.5} />
+        </div>
+        
+        <h1 className="text-3xl sm:text-5xl md:text-6xl font-black mb-2">
+          Welcome to <span className="text-red-500">Pyrolysis</span>
+        </h1>
+        <h2 className="text-3xl sm:text-5xl md:text-6xl font-black mb-4 sm:mb-6 text-red-500">Simulator</h2>
+        
+        {state.scenario.id !== DEFAULT_SCENARIO.id && (
+          <p className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-red-400 mb-3 sm:mb-4">
+            SCENARIO: {state.scenario.title.toUpperCase()}
+          </p>
+        )}
+        
+        <p className="text-slate-400 text-base sm:text-lg max-w-2xl mx-auto mb-8 sm:mb-12 px-2">
+          Experience the future of waste-to-energy. Learn how Microwave-Assisted Pyrolysis transforms waste into valuable resources through a series of interactive challenges.
+        </p>
+        
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4 mb-8 sm:mb-12">
+          {[
+            { icon: Info, title: 'EDUCATIONAL', desc: 'Learn the science of thermal decomposition without oxygen.', color: 'text-red-500' },
+            { icon: Zap, title: 'INNOVATIVE', desc: 'Discover why microwave technology is a game-changer for heating.', color: 'text-red-500' },
+            { icon: Leaf, title: 'SUSTAINABLE', desc: 'See how circular waste recovery helps protect our planet.', color: 'text-red-500' }
+          ].map((feature, idx) => (
+            <div key={idx} className="card p-4 sm:p-6 text-left animate-slide-in" style={{ animationDelay: `${idx * 0.15}s` }}>
+              <div className="flex items-center gap-2 mb-2 sm:mb-3">
+                <feature.icon className={`w-4 h-4 sm:w-5 sm:h-5 ${feature.color}`} />
+                <span className={`text-xs sm:text-sm font-bold title-font tracking-wider ${feature.color}`}>{feature.title}</span>
+              </div>
+              <p className="text-slate-400 text-xs sm:text-sm">{feature.desc}</p>
+            </div>
+          ))}
+        </div>
+        
+        {onSelectScenario && <ScenarioLibrary selected={state.scenario} onSelect={onSelectScenario} />}
+        
+        <button
+          onClick={onAdvance}
+          className="bg-red-500 hover:bg-red-600 text-white font-bold py-3 px-8 sm:py-4 sm:px-12 rounded-xl text-base sm:text-lg title-font transition-all duration-300 hover:scale-105 shadow-2xl hover:shadow-red-500/30 inline-flex items-center gap-3"
+        >
+          <Play className="w-5 h-5" fill="white" />
+          START MISSION
+        </button>
+        
+        {onResume && (
+          <button
+            onClick={onResume}
+            className="block mt-6 mx-auto bg-slate-800 hover:bg-slate-700 border border-red-500/40 text-white font-bold py-3 px-8 sm:py-4 sm:px-12 rounded-xl text-base sm:text-lg title-font transition-all duration-300 hover:scale-105 inline-flex items-center gap-3"
+          >
+            <RotateCcw className="w-5 h-5" />
+            RESUME MISSION
+          </button>
+        )}
+        
+        <a
+          href="https://thermowave-dynamics.github.io/"
+          target="_blank"
+          rel="noopener noreferrer"
+          className="block mt-6 bg-slate-800 hover:bg-slate-700 border border-slate-600 text-white font-bold py-3 px-8 sm:py-4 sm:px-12 rounded-xl text-base sm:text-lg title-font transition-all duration-300 hover:scale-105 inline-flex items-center gap-3"
+        >
+          <ArrowRight className="w-5 h-5" />
+          RETURN TO MAIN SITE
+        </a>
+        
+        <label className="flex items-center justify-center gap-2 mt-8 text-slate-500 text-xs sm:text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={analyticsConsent}
+            onChange={event => setAnalyticsConsent(event.target.checked)}
+            className="accent-red-500"
+          />
+          Share anonymous play data (stage times, mistakes) to help improve the lessons
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default LandingStage;
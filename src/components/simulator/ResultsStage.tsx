@@ -0,0 +1,296 @@
+import { FC } from 'react';
+import { Leaf, RotateCcw, BookOpen, Download, BarChart3, Package, Coins, Target, CheckCircle2, XCircle, Droplets, AlertTriangle } from 'lucide-react';
+import { LOSS_STREAMS, getBalanceTotal, getBiomassRatio, type LossStream } from '@/lib/simulation/engine';
+import { FUEL_CHLORINE_LIMIT, getPenaltyTotal } from '@/lib/simulation/chlorine';
+import { getMixMoisture } from '@/lib/simulation/heatup';
+import { computeMissionResults } from '@/lib/simulation/plugins';
+import { PRODUCTS } from '@/lib/simulation/products';
+import { evaluateTargets, type TargetMetric } from '@/lib/simulation/scenario';
+import { getStagePlugins } from './plugins';
+import { PRODUCT_ICONS } from './productIcons';
+import type { StageProps } from './types';
+
+const TARGET_LABELS: Record<TargetMetric, string> = {
+  overallEfficiency: 'OVERALL EFFICIENCY',
+  sortingRecovery: 'SORTING ACCURACY',
+  condensationQuality: 'CONDENSATION QUALITY',
+  productValue: 'PRODUCT VALUE',
+};
+
+const LOSS_LABELS: Record<LossStream, string> = {
+  unconverted: 'UNCONVERTED FEEDSTOCK',
+  uncondensed: 'UNCONDENSED VAPOUR',
+  sorting: 'SORTING LOSSES',
+  stages: 'OTHER STAGE LOSSES',
+};
+
+const BalanceRow: FC<{ label: string; value: number; loss?: boolean; total?: boolean }> = ({ label, value, loss, total }) => (
+  <tr className={total ? 'border-t border-slate-700' : undefined}>
+    <td className={`py-1 font-bold title-font tracking-wider ${loss ? 'text-slate-500 pl-3' : ''}`}>{label}</td>
+    <td className={`py-1 text-right font-bold ${loss && value > 0.05 ? 'text-red-400' : ''}`}>{value.toFixed(1)}%</td>
+  </tr>
+);
+
+const ChlorineRow: FC<{ label: string; value: string; alert?: boolean }> = ({ label, value, alert }) => (
+  <tr>
+    <td className="py-1 font-bold title-font tracking-wider text-slate-500">{label}</td>
+    <td className={`py-1 text-right font-bold ${alert ? 'text-red-400' : ''}`}>{value}</td>
+  </tr>
+);
+
+const formatTarget = (metric: TargetMetric, value: number) =>
+  metric === 'productValue' ? `$${value.toFixed(0)}/t` : `${value.toFixed(1)}%`;
+
+const ResultsStage: FC<StageProps> = ({ state, onReset, retryLevels, onRetry, onDownloadReplay }) => {
+  const { plasticRatio } = state;
+  const biomassRatio = getBiomassRatio(state);
+  const moisture = getMixMoisture(state.feed) * 100;
+  const results = computeMissionResults(state, getStagePlugins());
+  const targets = evaluateTargets(results, state.scenario.targets);
+  const { balance, chlorine } = results;
+  const penalties = getPenaltyTotal(chlorine);
+  const recovered = PRODUCTS.reduce((sum, product) => sum + balance.products[product.id], 0);
+  
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 sm:p-8">
+      <div className="max-w-5xl w-full animate-fade-in">
+        <div className="text-center mb-6 sm:mb-8">
+          <h2 className="text-2xl sm:text-3xl font-bold title-font mb-2">MISSION COMPLETE</h2>
+          <p className="text-slate-400 text-sm sm:text-base">
+            FINAL EFFICIENCY RATING: <span className="text-red-400 font-bold title-font text-lg sm:text-xl">{results.overallEfficiency.toFixed(1)}%</span>
+          </p>
+          <p className="text-slate-500 text-[10px] sm:text-xs title-font tracking-wider mt-2">
+            RUN SEED: <span className="text-slate-300 font-bold select-all">{state.seed}</span>
+          </p>
+        </div>
+        
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6 mb-4 sm:mb-6">
+          {/* Input Composition */}
+          <div className="card p-4 sm:p-8">
+            <div className="flex items-center gap-2 mb-4 sm:mb-6">
+              <BarChart3 className="w-5 h-5 text-slate-400" />
+              <h4 className="text-xs sm:text-sm font-bold title-font tracking-wider">INPUT COMPOSITION</h4>
+            </div>
+            
+            <div className="grid grid-cols-3 gap-4 mb-4 sm:mb-6">
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <Package className="w-4 h-4 text-blue-400" />
+                  <span className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-blue-400">PLASTIC</span>
+                </div>
+                <div className="text-2xl sm:text-3xl font-bold title-font">{plasticRatio.toFixed(0)}%</div>
+              </div>
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <Leaf className="w-4 h-4 text-emerald-400" />
+                  <span className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-emerald-400">BIOMASS</span>
+                </div>
+                <div className="text-2xl sm:text-3xl font-bold title-font">{biomassRatio.toFixed(0)}%</div>
+              </div>
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <Droplets className="w-4 h-4 text-sky-400" />
+                  <span className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-sky-400">MOISTURE</span>
+                </div>
+                <div className="text-2xl sm:text-3xl font-bold title-font">{moisture.toFixed(0)}%</div>
+              </div>
+            </div>
+            
+            <div className="space-y-3 sm:space-y-4">
+              <div>
+                <div className="flex justify-between mb-1">
+                  <span className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-slate-500">HEATING EFFICIENCY</span>
+                  <span className="text-[10px] sm:text-xs font-bold">{results.heatMetrics.completeness.toFixed(0)}%</span>
+                </div>
+                <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-red-500 rounded-full" style={{ width: `${results.heatMetrics.completeness}%` }} />
+                </div>
+              </div>
+              <div>
+                <div className="flex justify-between mb-1">
+                  <span className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-slate-500">SORTING ACCURACY</span>
+                  <span className="text-[10px] sm:text-xs font-bold">{results.sortingRecovery.toFixed(1)}%</span>
+                </div>
+                <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-red-500 rounded-full" style={{ width: `${results.sortingRecovery}%` }} />
+                </div>
+              </div>
+              <div>
+                <div className="flex justify-between mb-1">
+                  <span className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-slate-500">CONDENSATION QUALITY</span>
+                  <span className="text-[10px] sm:text-xs font-bold">{results.condensationQuality.toFixed(1)}%</span>
+                </div>
+                <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-red-500 rounded-full" style={{ width: `${results.condensationQuality}%` }} />
+                </div>
+              </div>
+              {results.stages.map(stage => (
+                <div key={stage.id}>
+                  <div className="flex justify-between mb-1">
+                    <span className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-slate-500">{stage.title.toUpperCase()}</span>
+                    <span className="text-[10px] sm:text-xs font-bold">{stage.score.toFixed(1)}%</span>
+                  </div>
+                  <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-red-500 rounded-full" style={{ width: `${stage.score}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+          
+          {/* Resource Recovery */}
+          <div className="card p-4 sm:p-8">
+            <div className="flex items-center gap-2 mb-4 sm:mb-6">
+              <Package className="w-5 h-5 text-slate-400" />
+              <h4 className="text-xs sm:text-sm font-bold title-font tracking-wider">RESOURCE RECOVERY</h4>
+            </div>
+            
+            <div className="space-y-4 sm:space-y-5">
+              {PRODUCTS.map(product => {
+                const Icon = PRODUCT_ICONS[product.id];
+                const productYield = results.yields[product.id];
+                return (
+                  <div key={product.id}>
+                    <div className="flex items-center justify-between mb-1.5">
+                      <div className="flex items-center gap-2">
+                        <Icon className="w-4 h-4" style={{ color: product.color }} />
+                        <span className="text-[10px] sm:text-xs font-bold title-font tracking-wider">{product.label.toUpperCase()}</span>
+                      </div>
+                      <span className="text-xs sm:text-sm font-bold">{productYield.toFixed(1)}%</span>
+                    </div>
+                    <div className="h-2 sm:h-2.5 bg-slate-800 rounded-full overflow-hidden">
+                      <div className="h-full rounded-full" style={{ width: `${productYield}%`, backgroundColor: product.color }} />
+                    </div>
+                  </div>
+                );
+              })}
+              
+              <table className="w-full pt-2 border-t border-slate-700 text-[10px] sm:text-xs" aria-label="Mass balance">
+                <caption className="text-left font-bold title-font tracking-wider text-slate-500 pt-3 pb-1.5">MASS BALANCE</caption>
+                <tbody>
+                  <BalanceRow label="FEED" value={100} />
+                  <BalanceRow label="RECOVERED PRODUCTS" value={recovered} />
+                  {LOSS_STREAMS.filter(stream => stream !== 'stages' || balance.losses.stages > 0).map(stream => (
+                    <BalanceRow key={stream} label={LOSS_LABELS[stream]} value={balance.losses[stream]} loss />
+                  ))}
+                  <BalanceRow label="TOTAL ACCOUNTED FOR" value={getBalanceTotal(balance)} total />
+                </tbody>
+              </table>
+              
+              {chlorine.feedChlorine > 0 && (
+                <table className="w-full border-t border-slate-700 text-[10px] sm:text-xs" aria-label="Chlorine">
+                  <caption className="text-left font-bold title-font tracking-wider text-slate-500 pt-3 pb-1.5">CHLORINE</caption>
+                  <tbody>
+                    <ChlorineRow label="IN FEED" value={`${chlorine.feedChlorine.toFixed(2)}%`} />
+                    <ChlorineRow label="HCl RELEASED" value={`${chlorine.hclReleased.toFixed(1)} kg/t`} />
+                    {state.dechlorination && <ChlorineRow label="HCl SCRUBBED" value={`${chlorine.hclCaptured.toFixed(1)} kg/t`} />}
+                    <ChlorineRow
+                      label={`FUEL CHLORINE (LIMIT ${FUEL_CHLORINE_LIMIT} ppm)`}
+                      value={`${chlorine.fuelChlorine.toFixed(0)} ppm`}
+                      alert={chlorine.fuelChlorine > FUEL_CHLORINE_LIMIT}
+                    />
+                    <ChlorineRow label="FUEL QUALITY" value={`${chlorine.fuelQuality.toFixed(0)}%`} alert={chlorine.fuelQuality < 100} />
+                    <ChlorineRow label="CORROSION RISK" value={`${chlorine.corrosion.toFixed(0)}%`} alert={chlorine.corrosion > 20} />
+                    {penalties > 0 && <ChlorineRow label="PENALTIES" value={`−$${penalties.toFixed(0)} / TONNE`} alert />}
+                  </tbody>
+                </table>
+              )}
+              {!state.dechlorination && (chlorine.fuelQuality < 100 || chlorine.corrosion > 20) && (
+                <div className="flex items-start gap-2 text-[10px] sm:text-xs text-amber-300">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  <span>PVC releases HCl that corrodes the plant and taints the fuel. Sort it out of the feed or dechlorinate before cracking.</span>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Coins className="w-4 h-4 text-emerald-400" />
+                  <span className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-slate-500">PRODUCT VALUE</span>
+                </div>
+                <span className="text-xs sm:text-sm font-bold text-emerald-400">${results.productValue.toFixed(0)} / TONNE</span>
+              </div>
+            </div>
+            
+            {/* Environmental Impact */}
+            <div className="mt-4 sm:mt-6 bg-emerald-900/20 border border-emerald-500/30 rounded-xl p-3 sm:p-4">
+              <div className="flex items-start gap-3">
+                <Leaf className="w-5 h-5 sm:w-6 sm:h-6 text-emerald-400 flex-shrink-0 mt-0.5" />
+                <div>
+                  <h5 className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-emerald-400 mb-1">ENVIRONMENTAL IMPACT</h5>
+                  <p className="text-xs sm:text-sm text-slate-300">Significant carbon reduction through circular waste recovery.</p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+        
+        {targets.length > 0 && (
+          <div className="card p-4 sm:p-6 mb-4 sm:mb-6">
+            <div className="flex items-center gap-2 mb-3 sm:mb-4">
+              <Target className="w-5 h-5 text-slate-400" />
+              <h4 className="text-xs sm:text-sm font-bold title-font tracking-wider">{state.scenario.title.toUpperCase()} TARGETS</h4>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-3">
+              {targets.map(({ metric, target, actual, met }) => (
+                <div key={metric} className="card-inner px-3 py-2 flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    {met ? <CheckCircle2 className="w-4 h-4 text-emerald-400" /> : <XCircle className="w-4 h-4 text-red-400" />}
+                    <span className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-slate-400">{TARGET_LABELS[metric]}</span>
+                  </div>
+                  <span className={`text-xs sm:text-sm font-bold ${met ? 'text-emerald-400' : 'text-red-400'}`}>
+                    {formatTarget(metric, actual)} <span className="text-slate-500 font-normal">/ {formatTarget(metric, target)}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {retryLevels.length > 0 && (
+          <div className="card p-3 sm:p-4 mb-4 sm:mb-6 flex flex-col sm:flex-row sm:items-center gap-3">
+            <span className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-slate-500 sm:mr-2">RETRY A LEVEL</span>
+            <div className="flex flex-wrap gap-2">
+              {retryLevels.map(({ id, title, level }) => (
+                <button
+                  key={id}
+                  onClick={() => onRetry(id)}
+                  className="bg-slate-800 hover:bg-slate-700 border border-slate-600 text-slate-200 font-bold py-1.5 px-3 rounded-lg text-[10px] sm:text-xs title-font tracking-wider transition-colors"
+                >
+                  {level}. {title.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        <div className={`grid grid-cols-1 gap-3 sm:gap-4 ${onDownloadReplay ? 'sm:grid-cols-3' : 'sm:grid-cols-2'}`}>
+          <button
+            onClick={onReset}
+            className="bg-slate-800 hover:bg-slate-700 border border-slate-600 text-white font-bold py-3 sm:py-4 px-6 sm:px-8 rounded-xl text-sm sm:text-lg title-font transition-all duration-300 hover:scale-[1.02] flex items-center justify-center gap-2 sm:gap-3"
+          >
+            <RotateCcw className="w-4 h-4 sm:w-5 sm:h-5" />
+            TRY DIFFERENT INPUTS
+          </button>
+          {onDownloadReplay && (
+            <button
+              onClick={onDownloadReplay}
+              className="bg-slate-800 hover:bg-slate-700 border border-slate-600 text-white font-bold py-3 sm:py-4 px-6 sm:px-8 rounded-xl text-sm sm:text-lg title-font transition-all duration-300 hover:scale-[1.02] flex items-center justify-center gap-2 sm:gap-3"
+            >
+              <Download className="w-4 h-4 sm:w-5 sm:h-5" />
+              SAVE REPLAY
+            </button>
+          )}
+          <button
+            onClick={() => window.open('https://thermowave-dynamics.github.io/technology.html', '_blank')}
+            className="bg-red-500 hover:bg-red-600 text-white font-bold py-3 sm:py-4 px-6 sm:px-8 rounded-xl text-sm sm:text-lg title-font transition-all duration-300 hover:scale-[1.02] flex items-center justify-center gap-2 sm:gap-3 cursor-pointer"
+          >
+            <BookOpen className="w-4 h-4 sm:w-5 sm:h-5" />
+            LEARN HOW THIS WORKS
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResultsStage;
@@ -0,0 +1,115 @@
+import { FC } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { BookOpen, Check, CloudOff, Loader2 } from 'lucide-react';
+import { BUNDLED_CATALOG } from '@/lib/simulation/catalog';
+import type { Scenario } from '@/lib/simulation/scenario';
+import { useScenarioCatalog } from '@/hooks/use-scenario-catalog';
+
+const DIFFICULTY_STYLES: Record<NonNullable<Scenario['difficulty']>, string> = {
+  easy: 'text-green-400 border-green-500/40',
+  medium: 'text-amber-400 border-amber-500/40',
+  hard: 'text-red-400 border-red-500/40',
+};
+
+interface ScenarioListProps {
+  title: string;
+  scenarios: Scenario[];
+  selected: Scenario;
+  onSelect: (scenario: Scenario) => void;
+}
+
+const ScenarioList: FC<ScenarioListProps> = ({ title, scenarios, selected, onSelect }) => (
+  <div>
+    <p className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-slate-500 mb-2">{title.toUpperCase()}</p>
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-3">
+      {scenarios.map(scenario => {
+        const isSelected = scenario === selected;
+        return (
+          <button
+            key={scenario.id}
+            onClick={() => onSelect(scenario)}
+            aria-pressed={isSelected}
+            className={`card p-3 sm:p-4 text-left transition-all duration-300 hover:border-red-500/50 ${
+              isSelected ? 'border-red-500 bg-red-500/10' : ''
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <span className="font-bold text-sm sm:text-base flex items-center gap-2">
+                {isSelected && <Check className="w-4 h-4 text-red-500" />}
+                {scenario.title}
+              </span>
+              {scenario.difficulty && (
+                <span className={`text-[10px] font-bold title-font tracking-wider border rounded px-1.5 py-0.5 ${DIFFICULTY_STYLES[scenario.difficulty]}`}>
+                  {scenario.difficulty.toUpperCase()}
+                </span>
+              )}
+            </div>
+            {scenario.description && <p className="text-slate-400 text-xs sm:text-sm">{scenario.description}</p>}
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
+
+interface ScenarioLibraryProps {
+  selected: Scenario;
+  onSelect: (scenario: Scenario) => void;
+}
+
+const ScenarioLibrary: FC<ScenarioLibraryProps> = ({ selected, onSelect }) => {
+  const [searchParams] = useSearchParams();
+  const { status, catalog, errors } = useScenarioCatalog(searchParams.get('catalog'));
+  const hosted = catalog?.scenarios ?? [];
+
+  // Match the running scenario by id so a reload still highlights it
+  const findSelected = (scenarios: Scenario[]) => scenarios.find(scenario => scenario.id === selected.id);
+  const selectedEntry = findSelected(hosted) ?? findSelected(BUNDLED_CATALOG.scenarios) ?? selected;
+
+  return (
+    <div className="text-left space-y-4 mb-8 sm:mb-12">
+      <div className="flex items-center gap-2 text-red-500">
+        <BookOpen className="w-4 h-4 sm:w-5 sm:h-5" />
+        <span className="text-xs sm:text-sm font-bold title-font tracking-wider">CHOOSE A SCENARIO</span>
+      </div>
+
+      {status === 'loading' && !catalog && (
+        <p className="text-slate-400 text-xs sm:text-sm flex items-center gap-2">
+          <Loader2 className="w-4 h-4 animate-spin" /> Loading scenario catalog…
+        </p>
+      )}
+      {status === 'offline' && (
+        <p className="text-amber-400 text-xs sm:text-sm flex items-center gap-2">
+          <CloudOff className="w-4 h-4" /> Catalog unavailable, showing the copy saved on this device.
+        </p>
+      )}
+      {status === 'error' && (
+        <p className="text-red-400 text-xs sm:text-sm flex items-center gap-2">
+          <CloudOff className="w-4 h-4" /> The scenario catalog could not be loaded: {errors[0]}
+        </p>
+      )}
+
+      {hosted.length > 0 && (
+        <ScenarioList
+          title={catalog.title || 'Hosted scenarios'}
+          scenarios={hosted}
+          selected={selectedEntry}
+          onSelect={onSelect}
+        />
+      )}
+      {status === 'ready' && errors.length > 0 && (
+        <p className="text-amber-400 text-xs">
+          {errors.length} catalog {errors.length === 1 ? 'entry was' : 'entries were'} skipped: {errors[0]}
+        </p>
+      )}
+      <ScenarioList
+        title={BUNDLED_CATALOG.title}
+        scenarios={BUNDLED_CATALOG.scenarios}
+        selected={selectedEntry}
+        onSelect={onSelect}
+      />
+    </div>
+  );
+};
+
+export default ScenarioLibrary;
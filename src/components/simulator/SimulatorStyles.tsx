@@ -0,0 +1,109 @@
+import { FC } from 'react';
+
+/** Fonts, keyframes and control styling shared by every stage screen. */
+const SimulatorStyles: FC = () => (
+  <style>{`
+    @import url('https://fonts.googleapis.com/css2?family=Orbitron:wght@400;500;600;700;800;900&family=Inter:wght@300;400;500;600;700&display=swap');
+    
+    * { font-family: 'Inter', sans-serif; }
+    h1, h2, h3, h4, .title-font { font-family: 'Orbitron', sans-serif; }
+    
+    @keyframes float {
+      0%, 100% { transform: translateY(0px) translateX(0px); }
+      25% { transform: translateY(-10px) translateX(5px); }
+      50% { transform: translateY(-5px) translateX(-5px); }
+      75% { transform: translateY(-15px) translateX(3px); }
+    }
+    
+    @keyframes slideInUp {
+      from { transform: translateY(30px); opacity: 0; }
+      to { transform: translateY(0); opacity: 1; }
+    }
+    
+    @keyframes fadeIn { from { opacity: 0; } to { opacity: 1; } }
+    
+    @keyframes pulseGlow {
+      0%, 100% { box-shadow: 0 0 20px rgba(239, 68, 68, 0.4); }
+      50% { box-shadow: 0 0 40px rgba(239, 68, 68, 0.7), 0 0 60px rgba(239, 68, 68, 0.3); }
+    }
+    
+    @keyframes bubbleUp {
+      0% { transform: translateY(0) scale(1); opacity: 0.6; }
+      50% { opacity: 1; }
+      100% { transform: translateY(-20px) scale(0.5); opacity: 0; }
+    }
+    
+    @keyframes spawnRise {
+      0% { transform: translateY(100%) scale(0.3); opacity: 0; }
+      20% { opacity: 1; transform: translateY(60%) scale(0.8); }
+      40% { transform: translateY(30%) scale(1); }
+      100% { transform: translateY(0%) scale(1); opacity: 1; }
+    }
+    
+    @keyframes reactorGlow {
+      0%, 100% { background-position: 0% 50%; }
+      50% { background-position: 100% 50%; }
+    }
+    
+    @keyframes smokePuff {
+      0% { transform: translateY(0) scale(1); opacity: 0.4; }
+      100% { transform: translateY(-40px) scale(2); opacity: 0; }
+    }
+    
+    .spawn-product {
+      animation: spawnRise 0.8s cubic-bezier(0.34, 1.56, 0.64, 1) forwards;
+    }
+    
+    .animate-slide-in { animation: slideInUp 0.6s ease-out; }
+    .animate-fade-in { animation: fadeIn 0.8s ease-out; }
+    .animate-pulse-glow { animation: pulseGlow 2s ease-in-out infinite; }
+    
+    .card {
+      background: rgba(15, 23, 42, 0.8);
+      backdrop-filter: blur(12px);
+      border: 1px solid rgba(100, 116, 139, 0.2);
+      border-radius: 1rem;
+    }
+    
+    .card-inner {
+      background: rgba(15, 23, 42, 0.6);
+      border: 1px solid rgba(100, 116, 139, 0.15);
+      border-radius: 0.75rem;
+    }
+    
+    .gradient-mesh {
+      background: 
+        radial-gradient(at 20% 30%, rgba(239, 68, 68, 0.08) 0px, transparent 50%),
+        radial-gradient(at 80% 70%, rgba(6, 182, 212, 0.08) 0px, transparent 50%),
+        radial-gradient(at 50% 50%, rgba(16, 185, 129, 0.05) 0px, transparent 50%);
+    }
+    
+    input[type="range"] {
+      -webkit-appearance: none;
+      height: 8px;
+      border-radius: 4px;
+      outline: none;
+    }
+    input[type="range"]::-webkit-slider-thumb {
+      -webkit-appearance: none;
+      width: 24px;
+      height: 24px;
+      border-radius: 50%;
+      background: #0f172a;
+      border: 3px solid currentColor;
+      cursor: pointer;
+      margin-top: -1px;
+    }
+    
+    input[type="number"] {
+      -moz-appearance: textfield;
+    }
+    input[type="number"]::-webkit-outer-spin-button,
+    input[type="number"]::-webkit-inner-spin-button {
+      -webkit-appearance: none;
+      margin: 0;
+    }
+  `}</style>
+);
+
+export default SimulatorStyles;
@@ -0,0 +1,201 @@
+import { FC, TouchEvent, useState } from 'react';
+import { Package } from 'lucide-react';
+import { analytics } from '@/lib/simulation/analytics';
+import {
+  ProductType,
+  getBiomassRatio,
+  getTotalSorted,
+  isSortingComplete,
+} from '@/lib/simulation/engine';
+import { PRODUCTS, getProduct, isProductType } from '@/lib/simulation/products';
+import { createStream } from '@/lib/simulation/random';
+import { PRODUCT_ICONS } from './productIcons';
+import type { StageProps } from './types';
+
+const SortingStage: FC<StageProps> = ({ state, dispatch, title, level, canAdvance, onAdvance }) => {
+  // Touch drag state
+  const [touchDragType, setTouchDragType] = useState<ProductType | null>(null);
+  const [touchDragId, setTouchDragId] = useState<number | null>(null);
+  
+  const { plasticRatio } = state;
+  const biomassRatio = getBiomassRatio(state);
+  const { progress: sortingProgress, losses, spawned: spawnedProducts, totalSpawned } = state.sorting;
+  const sortingComplete = isSortingComplete(state);
+  const totalSorted = getTotalSorted(state.sorting);
+  const { productCount } = state.scenario.stages.sorting;
+  const remaining = productCount - totalSorted - losses;
+  
+  const handleDrop = (binType: ProductType, productId: number) => {
+    // Text, files and other stray drags carry no product; recording them would break the replay
+    const product = Number.isInteger(productId) ? spawnedProducts.find(p => p.id === productId) : undefined;
+    if (!product) return;
+    analytics.track('productDropped', { product: product.type, bin: binType, correct: product.type === binType });
+    dispatch({ type: 'dropProduct', bin: binType, productId });
+  };
+  
+  // Touch handlers for product sorting
+  const handleTouchStart = (type: ProductType, id: number) => {
+    setTouchDragType(type);
+    setTouchDragId(id);
+  };
+  
+  const handleTouchEnd = (e: TouchEvent<HTMLDivElement>) => {
+    if (!touchDragType || touchDragId === null) return;
+    const touch = e.changedTouches[0];
+    const el = document.elementFromPoint(touch.clientX, touch.clientY);
+    // Walk up to find bin
+    let target = el as HTMLElement;
+    while (target && !target.dataset.bin) {
+      target = target.parentElement as HTMLElement;
+    }
+    if (target && isProductType(target.dataset.bin)) {
+      handleDrop(target.dataset.bin, touchDragId);
+    }
+    setTouchDragType(null);
+    setTouchDragId(null);
+  };
+  
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 sm:p-8">
+      <div className="max-w-5xl w-full">
+        <div className="card p-4 sm:p-8 animate-fade-in">
+          <div className="flex items-center gap-3 mb-2">
+            <Package className="w-6 h-6 sm:w-7 sm:h-7 text-purple-400" />
+            <h2 className="text-xl sm:text-2xl md:text-3xl font-bold title-font">Level {level}: {title}</h2>
+          </div>
+          <p className="text-slate-400 text-sm sm:text-base mb-6 sm:mb-8">Drag the pyrolysis outputs into their correct bins. Wrong bins count as losses!</p>
+          
+          {/* Top bins */}
+          <div className="grid grid-cols-4 sm:grid-cols-7 gap-2 sm:gap-3 mb-4 sm:mb-6">
+            {PRODUCTS.map(product => {
+              const BinIcon = PRODUCT_ICONS[product.id];
+              return (
+                <div
+                  key={product.id}
+                  data-bin={product.id}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    const productId = parseInt(e.dataTransfer.getData('productId'));
+                    handleDrop(product.id, productId);
+                  }}
+                  className="card-inner p-2 sm:p-4 border-2 hover:brightness-125 transition-all flex flex-col items-center justify-center text-center min-h-[90px] sm:min-h-[120px]"
+                  style={{ borderColor: `${product.color}80` }}
+                >
+                  <BinIcon className="w-6 h-6 sm:w-8 sm:h-8 mb-1 sm:mb-2" style={{ color: product.color }} />
+                  <span className="text-[9px] sm:text-xs font-bold title-font tracking-wider" style={{ color: product.color }}>{product.label.toUpperCase()}</span>
+                  <span className="text-[10px] sm:text-xs text-slate-500 mt-1">{sortingProgress[product.id]}</span>
+                </div>
+              );
+            })}
+          </div>
+          
+          {/* Separator */}
+          <div className="h-px bg-slate-700 mb-4 sm:mb-6" />
+          
+          {/* Animated Reactor Output */}
+          <div className="card-inner p-4 sm:p-6 mb-4 sm:mb-6 min-h-[180px] sm:min-h-[240px] relative overflow-hidden">
+            {/* Reactor glow background */}
+            <div className="absolute inset-0 bg-gradient-to-t from-orange-950/30 via-transparent to-transparent pointer-events-none" />
+            <div className="absolute bottom-0 left-0 right-0 h-16 bg-gradient-to-t from-orange-900/20 to-transparent pointer-events-none">
+              {!sortingComplete && [...Array(5)].map((_, i) => {
+                const random = createStream(state.seed, 'smoke', i);
+                return (
+                  <div
+                    key={`smoke-${i}`}
+                    className="absolute rounded-full bg-slate-500/20"
+                    style={{
+                      width: `${8 + random() * 12}px`,
+                      height: `${8 + random() * 12}px`,
+                      left: `${20 + random() * 60}%`,
+                      bottom: '0',
+                      animation: `smokePuff ${2 + random() * 2}s ease-out infinite`,
+                      animationDelay: `${random() * 3}s`
+                    }}
+                  />
+                );
+              })}
+            </div>
+            
+            {/* Spawned products */}
+            <div className="flex gap-2 sm:gap-4 flex-wrap relative z-10 min-h-[140px] sm:min-h-[180px] items-end">
+              {spawnedProducts.map((product) => {
+                const config = getProduct(product.type);
+                const IconComp = PRODUCT_ICONS[product.type];
+                
+                return (
+                  <div
+                    key={product.id}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('productType', product.type);
+                      e.dataTransfer.setData('productId', product.id.toString());
+                      e.currentTarget.style.opacity = '0.5';
+                    }}
+                    onDragEnd={(e) => {
+                      e.currentTarget.style.opacity = '1';
+                    }}
+                    onTouchStart={() => handleTouchStart(product.type, product.id)}
+                    onTouchEnd={handleTouchEnd}
+                    className="spawn-product w-14 h-14 sm:w-20 sm:h-20 border-2 rounded-xl cursor-move hover:scale-110 transition-transform flex flex-col items-center justify-center shadow-lg touch-none"
+                    style={{ animationDelay: `${(product.id % 3) * 0.1}s`, backgroundColor: `${config.color}26`, borderColor: config.color }}
+                  >
+                    <IconComp className="w-5 h-5 sm:w-7 sm:h-7 mb-0.5 sm:mb-1" style={{ color: config.color }} />
+                    <span className="text-[8px] sm:text-[10px] font-bold title-font" style={{ color: config.color }}>{config.shortLabel}</span>
+                  </div>
+                );
+              })}
+              
+              {spawnedProducts.length === 0 && !sortingComplete && (
+                <div className="flex-1 flex items-center justify-center text-slate-600 title-font text-xs sm:text-sm tracking-wider py-8">
+                  PRODUCTS GENERATING...
+                </div>
+              )}
+            </div>
+            
+            {/* Feedstock ratio indicator */}
+            <div className="absolute top-2 sm:top-3 right-2 sm:right-3 flex items-center gap-1 sm:gap-2 text-[8px] sm:text-[10px] title-font tracking-wider text-slate-500">
+              <span className="text-blue-400">{plasticRatio.toFixed(0)}% PLASTIC</span>
+              <span>·</span>
+              <span className="text-emerald-400">{biomassRatio.toFixed(0)}% BIOMASS</span>
+            </div>
+          </div>
+          
+          {/* Stats */}
+          <div className="grid grid-cols-3 gap-2 sm:gap-4 mb-4">
+            <div className="text-center">
+              <div className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-slate-500 mb-1">SORTED</div>
+              <div className="text-xl sm:text-2xl font-bold title-font text-red-400">{totalSorted}</div>
+            </div>
+            <div className="text-center">
+              <div className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-slate-500 mb-1">REMAINING</div>
+              <div className="text-xl sm:text-2xl font-bold title-font">{Math.max(0, remaining)}</div>
+            </div>
+            <div className="text-center">
+              <div className="text-[10px] sm:text-xs font-bold title-font tracking-wider text-slate-500 mb-1">LOSSES</div>
+              <div className="text-xl sm:text-2xl font-bold title-font text-yellow-500">{losses}</div>
+            </div>
+          </div>
+          
+          <p className="text-center text-xs sm:text-sm title-font tracking-wider text-slate-500">
+            {sortingComplete ? 'ALL ITEMS SORTED!' : `SPAWNED ${totalSpawned}/${productCount} — DRAG ITEMS TO BINS...`}
+          </p>
+        </div>
+        
+        <button
+          onClick={onAdvance}
+          disabled={!canAdvance}
+          className={`w-full mt-4 sm:mt-6 font-bold py-3 sm:py-4 px-8 rounded-xl text-base sm:text-lg title-font transition-all duration-300 ${
+            canAdvance
+              ? 'bg-red-500 hover:bg-red-600 text-white hover:scale-[1.02]'
+              : 'bg-slate-800 text-slate-500 cursor-not-allowed border border-slate-700'
+          }`}
+        >
+          {canAdvance ? 'PROCEED TO COOLING' : `SORT ALL PRODUCTS (${totalSorted + losses}/${productCount})`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SortingStage;
@@ -0,0 +1,52 @@
+import { FC } from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { StageRegistration } from './types';
+
+interface StageProgressProps {
+  levels: StageRegistration[];
+  currentId: string;
+  /** Restarts the current level from its checkpoint. */
+  onRetry?: () => void;
+}
+
+const StageProgress: FC<StageProgressProps> = ({ levels, currentId, onRetry }) => {
+  const currentIndex = levels.findIndex(stage => stage.id === currentId);
+  
+  return (
+    <div className="fixed top-3 left-3 z-30 card px-2 py-1.5 sm:px-3 sm:py-2 flex items-center gap-1.5 sm:gap-2">
+      {levels.map((stage, idx) => {
+        const isCurrent = idx === currentIndex;
+        const isDone = idx < currentIndex;
+        return (
+          <div key={stage.id} className="flex items-center gap-1.5 sm:gap-2">
+            {idx > 0 && <div className={`w-3 sm:w-5 h-px ${isDone || isCurrent ? 'bg-red-500' : 'bg-slate-700'}`} />}
+            <div
+              className={`w-5 h-5 sm:w-6 sm:h-6 rounded-full flex items-center justify-center text-[10px] sm:text-xs font-bold title-font ${
+                isCurrent ? 'bg-red-500 text-white' : isDone ? 'bg-red-500/20 text-red-400 border border-red-500/50' : 'bg-slate-800 text-slate-500'
+              }`}
+            >
+              {idx + 1}
+            </div>
+            {isCurrent && (
+              <span className="hidden sm:inline text-[10px] sm:text-xs font-bold title-font tracking-wider text-slate-300">
+                {stage.title.toUpperCase()}
+              </span>
+            )}
+          </div>
+        );
+      })}
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          aria-label="Retry this level"
+          title="Retry this level"
+          className="ml-1 w-6 h-6 sm:w-7 sm:h-7 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white flex items-center justify-center transition-colors"
+        >
+          <RotateCcw className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default StageProgress;
@@ -0,0 +1,252 @@
+import { calculateHeatMetrics } from '@/lib/simulation/engine';
+import {
+  CLIP_FRAME_RATES,
+  createClipFrames,
+  getClipFrameCount,
+  getClipSize,
+  type ClipFrame,
+  type ClipOptions,
+} from '@/lib/simulation/clip';
+import { getReplayDuration, type ReplayContext, type ReplayFile } from '@/lib/simulation/replay';
+import { PRODUCTS, type ProductType } from '@/lib/simulation/products';
+import { createGifEncoder } from '@/lib/gif';
+import { getHeatColor } from './heatColors';
+
+// Frames are laid out on a 1280×720 board and scaled to the chosen resolution
+const BOARD_WIDTH = 1280;
+const BOARD_HEIGHT = 720;
+const PANEL_TOP = 110;
+const PANEL_WIDTH = 380;
+const PANEL_HEIGHT = 570;
+const PANELS = [
+  { stage: 'heating', title: 'HEATING', x: 40 },
+  { stage: 'sorting', title: 'SORTING', x: 450 },
+  { stage: 'cooling', title: 'COOLING', x: 860 },
+];
+
+const COLORS = {
+  background: '#020617',
+  panel: '#0f172a',
+  border: '#334155',
+  active: '#ef4444',
+  text: '#ffffff',
+  muted: '#94a3b8',
+  target: '#22d3ee',
+  trace: '#f87171',
+};
+
+const FONT = 'system-ui, sans-serif';
+
+const formatClock = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const text = (ctx: CanvasRenderingContext2D, value: string, x: number, y: number, size: number, color = COLORS.text, align: CanvasTextAlign = 'left') => {
+  ctx.font = `bold ${size}px ${FONT}`;
+  ctx.fillStyle = color;
+  ctx.textAlign = align;
+  ctx.fillText(value, x, y);
+};
+
+const drawHeating = (ctx: CanvasRenderingContext2D, { state }: ClipFrame, x: number) => {
+  const { heatGrid } = state;
+  const gridSize = 300;
+  const cell = gridSize / heatGrid.length;
+  const left = x + (PANEL_WIDTH - gridSize) / 2;
+  const top = PANEL_TOP + 70;
+  heatGrid.forEach((cells, row) =>
+    cells.forEach((heat, col) => {
+      ctx.fillStyle = getHeatColor(heat);
+      ctx.fillRect(left + col * cell + 1, top + row * cell + 1, cell - 2, cell - 2);
+    }),
+  );
+  const { completeness, uniformity } = calculateHeatMetrics(heatGrid);
+  text(ctx, `Heated ${completeness.toFixed(0)}%`, x + 40, top + gridSize + 60, 22);
+  text(ctx, `Uniformity ${uniformity.toFixed(0)}%`, x + 40, top + gridSize + 95, 22, COLORS.muted);
+};
+
+const drawSorting = (ctx: CanvasRenderingContext2D, { state }: ClipFrame, x: number) => {
+  const { sorting } = state;
+  const barWidth = PANEL_WIDTH - 180;
+  PRODUCTS.forEach((product, index) => {
+    const y = PANEL_TOP + 80 + index * 44;
+    const total = sorting.queue.filter(type => type === product.id).length;
+    const sorted = sorting.progress[product.id as ProductType];
+    text(ctx, product.shortLabel, x + 24, y + 16, 16, COLORS.muted);
+    ctx.fillStyle = COLORS.border;
+    ctx.fillRect(x + 80, y, barWidth, 20);
+    ctx.fillStyle = product.color;
+    ctx.fillRect(x + 80, y, total > 0 ? (barWidth * sorted) / total : 0, 20);
+    text(ctx, `${sorted}/${total}`, x + PANEL_WIDTH - 24, y + 16, 16, COLORS.text, 'right');
+  });
+
+  // The conveyor with the products currently on it
+  const beltTop = PANEL_TOP + 80 + PRODUCTS.length * 44 + 30;
+  ctx.fillStyle = COLORS.border;
+  ctx.fillRect(x + 24, beltTop, PANEL_WIDTH - 48, 40);
+  for (const product of sorting.spawned) {
+    ctx.fillStyle = PRODUCTS.find(({ id }) => id === product.type)?.color ?? COLORS.text;
+    ctx.beginPath();
+    ctx.arc(x + 24 + ((PANEL_WIDTH - 48) * product.x) / 100, beltTop + 20, 14, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  text(ctx, `Losses ${sorting.losses}`, x + 24, beltTop + 80, 22, sorting.losses > 0 ? COLORS.active : COLORS.muted);
+};
+
+const drawCooling = (ctx: CanvasRenderingContext2D, { state, coolingTrace }: ClipFrame, x: number) => {
+  const { duration, initialGasTemp, optimalGasTemp } = state.scenario.stages.cooling;
+  const maxTemp = Math.max(initialGasTemp, ...coolingTrace.map(sample => sample.gasTemp)) * 1.1;
+  const chart = { left: x + 50, top: PANEL_TOP + 70, width: PANEL_WIDTH - 80, height: 320 };
+  const toX = (time: number) => chart.left + (chart.width * Math.min(time, duration)) / duration;
+  const toY = (temp: number) => chart.top + chart.height * (1 - Math.max(0, temp) / maxTemp);
+
+  ctx.strokeStyle = COLORS.border;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(chart.left, chart.top, chart.width, chart.height);
+  text(ctx, `${Math.round(maxTemp)}°`, chart.left - 8, chart.top + 14, 14, COLORS.muted, 'right');
+  text(ctx, '0°', chart.left - 8, chart.top + chart.height, 14, COLORS.muted, 'right');
+
+  ctx.strokeStyle = COLORS.target;
+  ctx.setLineDash([8, 6]);
+  ctx.beginPath();
+  ctx.moveTo(chart.left, toY(optimalGasTemp));
+  ctx.lineTo(chart.left + chart.width, toY(optimalGasTemp));
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  if (coolingTrace.length > 0) {
+    ctx.strokeStyle = COLORS.trace;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    coolingTrace.forEach(({ time, gasTemp }, index) =>
+      index === 0 ? ctx.moveTo(toX(time), toY(gasTemp)) : ctx.lineTo(toX(time), toY(gasTemp)),
+    );
+    ctx.stroke();
+  }
+
+  const { gasTemp, power, time } = state.cooling;
+  text(ctx, `${gasTemp.toFixed(0)}°C`, x + 40, chart.top + chart.height + 60, 28);
+  text(ctx, `target ${optimalGasTemp}°C`, x + PANEL_WIDTH - 30, chart.top + chart.height + 60, 18, COLORS.target, 'right');
+  text(ctx, `Power ${power}% · ${time.toFixed(1)}s / ${duration}s`, x + 40, chart.top + chart.height + 95, 18, COLORS.muted);
+};
+
+const DRAW_PANEL: Record<string, (ctx: CanvasRenderingContext2D, frame: ClipFrame, x: number) => void> = {
+  heating: drawHeating,
+  sorting: drawSorting,
+  cooling: drawCooling,
+};
+
+/** Draws one clip frame: a header with the current stage, and the heating, sorting and cooling panels. */
+export const drawClipFrame = (ctx: CanvasRenderingContext2D, frame: ClipFrame, stageTitle: string) => {
+  const { width, height } = ctx.canvas;
+  ctx.setTransform(width / BOARD_WIDTH, 0, 0, height / BOARD_HEIGHT, 0, 0);
+  ctx.fillStyle = COLORS.background;
+  ctx.fillRect(0, 0, BOARD_WIDTH, BOARD_HEIGHT);
+
+  const { state, at } = frame;
+  text(ctx, stageTitle.toUpperCase(), 40, 62, 36);
+  text(ctx, formatClock(at), BOARD_WIDTH - 40, 50, 30, COLORS.text, 'right');
+  text(ctx, `Seed ${state.seed} · ${state.scenario.title}`, BOARD_WIDTH - 40, 80, 16, COLORS.muted, 'right');
+
+  for (const panel of PANELS) {
+    const active = panel.stage === state.stage;
+    ctx.fillStyle = COLORS.panel;
+    ctx.fillRect(panel.x, PANEL_TOP, PANEL_WIDTH, PANEL_HEIGHT);
+    ctx.strokeStyle = active ? COLORS.active : COLORS.border;
+    ctx.lineWidth = active ? 4 : 2;
+    ctx.strokeRect(panel.x, PANEL_TOP, PANEL_WIDTH, PANEL_HEIGHT);
+    text(ctx, panel.title, panel.x + 24, PANEL_TOP + 42, 22, active ? COLORS.active : COLORS.muted);
+    DRAW_PANEL[panel.stage](ctx, frame, panel.x);
+  }
+};
+
+export interface ClipExportRequest {
+  replay: ReplayFile;
+  context: ReplayContext;
+  options: ClipOptions;
+  stageTitle: (stageId: string) => string;
+  /** Called with the share of frames rendered so far, from 0 to 1. */
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+const createCanvas = (options: ClipOptions) => {
+  const canvas = document.createElement('canvas');
+  Object.assign(canvas, getClipSize(options.resolution));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('This browser cannot draw the clip');
+  return { canvas, ctx };
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('The export was cancelled', 'AbortError');
+};
+
+// Hands the main thread back between frames so the page stays responsive
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const renderGif = async ({ replay, context, options, stageTitle, onProgress, signal }: ClipExportRequest) => {
+  const { canvas, ctx } = createCanvas(options);
+  const encoder = createGifEncoder(canvas.width, canvas.height);
+  const total = getClipFrameCount(getReplayDuration(replay), options);
+  const delay = 1000 / CLIP_FRAME_RATES.gif;
+  let rendered = 0;
+  for (const frame of createClipFrames(replay, context, options)) {
+    throwIfAborted(signal);
+    drawClipFrame(ctx, frame, stageTitle(frame.state.stage));
+    encoder.addFrame(ctx.getImageData(0, 0, canvas.width, canvas.height).data, delay);
+    onProgress?.(++rendered / total);
+    await nextTask();
+  }
+  return new Blob([encoder.finish()], { type: 'image/gif' });
+};
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const isWebmSupported = () =>
+  typeof MediaRecorder !== 'undefined' && WEBM_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+/** MediaRecorder captures in real time, so frames are drawn at the clip's own pace. */
+const recordWebm = ({ replay, context, options, stageTitle, onProgress, signal }: ClipExportRequest) =>
+  new Promise<Blob>((resolve, reject) => {
+    const { canvas, ctx } = createCanvas(options);
+    const fps = CLIP_FRAME_RATES.webm;
+    const recorder = new MediaRecorder(canvas.captureStream(fps), {
+      mimeType: WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type)),
+    });
+    const chunks: Blob[] = [];
+    const frames = createClipFrames(replay, context, options);
+    const total = getClipFrameCount(getReplayDuration(replay), options);
+    let rendered = 0;
+    let timer: ReturnType<typeof setTimeout>;
+
+    recorder.ondataavailable = event => chunks.push(event.data);
+    recorder.onstop = () => {
+      if (signal?.aborted) reject(new DOMException('The export was cancelled', 'AbortError'));
+      else resolve(new Blob(chunks, { type: 'video/webm' }));
+    };
+    recorder.onerror = () => reject(new Error('The browser stopped recording the clip'));
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      if (recorder.state !== 'inactive') recorder.stop();
+    });
+
+    const start = performance.now();
+    const drawNext = () => {
+      const next = frames.next();
+      if (next.done || signal?.aborted) {
+        recorder.stop();
+        return;
+      }
+      drawClipFrame(ctx, next.value, stageTitle(next.value.state.stage));
+      onProgress?.(++rendered / total);
+      timer = setTimeout(drawNext, Math.max(0, start + (rendered * 1000) / fps - performance.now()));
+    };
+    recorder.start();
+    drawNext();
+  });
+
+/** Renders the replay into a clip file, entirely in the browser. */
+export const exportClip = (request: ClipExportRequest): Promise<Blob> =>
+  request.options.format === 'gif' ? renderGif(request) : recordWebm(request);
@@ -0,0 +1,8 @@
+/** Colour of a reactor cell at `heat` (0–100), shared by the heating grid and clip export. */
+export const getHeatColor = (heat: number) => {
+  if (heat === 0) return 'rgb(120, 100, 30)';
+  if (heat < 30) return 'rgb(160, 110, 20)';
+  if (heat < 60) return 'rgb(200, 80, 20)';
+  if (heat < 90) return 'rgb(230, 50, 30)';
+  return 'rgb(255, 30, 50)';
+};
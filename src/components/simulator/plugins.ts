@@ -0,0 +1,49 @@
+import { createElement, type ComponentType } from 'react';
+import type { SimulationState } from '@/lib/simulation/engine';
+import { getPluginState, setPluginState, type SimulationPlugin } from '@/lib/simulation/plugins';
+import type { StageProps, StageRegistration } from './types';
+
+export interface PluginStageProps<TSlice> extends StageProps {
+  slice: TSlice;
+  updateSlice: (updater: (slice: TSlice) => TSlice) => void;
+}
+
+export interface StagePlugin<TSlice = unknown> extends SimulationPlugin<TSlice> {
+  component: ComponentType<PluginStageProps<TSlice>>;
+}
+
+// Replaced rather than mutated on registration, so registries derived from it can cache by identity.
+let plugins: StagePlugin[] = [];
+
+/** Adds a stage to the mission flow. Call at app start, before the simulator mounts. */
+export const registerStagePlugin = <TSlice>(plugin: StagePlugin<TSlice>) => {
+  if (plugins.some(registered => registered.id === plugin.id)) {
+    throw new Error(`Stage plugin "${plugin.id}" is already registered`);
+  }
+  plugins = [...plugins, plugin as unknown as StagePlugin];
+};
+
+export const getStagePlugins = (): StagePlugin[] => plugins;
+
+/** Adapts a plugin to the stage registry; `next` is wired up when it is inserted into the flow. */
+export const toStageRegistration = <TSlice>(plugin: StagePlugin<TSlice>): StageRegistration => {
+  const { canComplete, isRunning, step } = plugin;
+  const slice = (state: SimulationState) => getPluginState(state, plugin);
+  return {
+    id: plugin.id,
+    title: plugin.title,
+    next: null,
+    isLevel: true,
+    canComplete: canComplete && (state => canComplete(slice(state), state)),
+    isRunning: isRunning && (state => isRunning(slice(state), state)),
+    onTick: step && ((state, dt) => setPluginState(state, plugin, step(slice(state), dt, state))),
+    component: props =>
+      createElement(plugin.component, {
+        ...props,
+        slice: slice(props.state),
+        // Recorded like any other player input so replays of the run include the stage
+        updateSlice: updater =>
+          props.dispatch({ type: 'setPluginState', plugin: plugin.id, slice: updater(slice(props.state)) }),
+      }),
+  };
+};
@@ -0,0 +1,13 @@
+import { Cloud, Droplet, Droplets, Hexagon, Package, Waves, Wind, type LucideIcon } from 'lucide-react';
+import type { ProductType } from '@/lib/simulation/products';
+
+/** Icon of each product in the registry, used on bins, conveyor items and results. */
+export const PRODUCT_ICONS: Record<ProductType, LucideIcon> = {
+  liquidFuel: Droplets,
+  wax: Hexagon,
+  syngas: Wind,
+  tar: Droplet,
+  aqueous: Waves,
+  biochar: Package,
+  ash: Cloud,
+};
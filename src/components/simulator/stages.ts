@@ -0,0 +1,61 @@
+import type { ComponentType } from 'react';
+import type { SimulationState, StageId } from '@/lib/simulation/engine';
+import type { StageMachine } from '@/lib/simulation/machine';
+import { CORE_STAGES } from '@/lib/simulation/stages';
+import LandingStage from './LandingStage';
+import FeedstockStage from './FeedstockStage';
+import HeatingStage from './HeatingStage';
+import SortingStage from './SortingStage';
+import CoolingStage from './CoolingStage';
+import ResultsStage from './ResultsStage';
+import { getStagePlugins, toStageRegistration, type StagePlugin } from './plugins';
+import type { StageProps, StageRegistration } from './types';
+
+export { getStageOrder } from '@/lib/simulation/stages';
+
+const STAGE_COMPONENTS: Record<StageId, ComponentType<StageProps>> = {
+  landing: LandingStage,
+  feedstock: FeedstockStage,
+  heating: HeatingStage,
+  sorting: SortingStage,
+  cooling: CoolingStage,
+  results: ResultsStage,
+};
+
+/** The core mission flow. The first entry is where every run starts. */
+export const STAGE_REGISTRY: StageRegistration[] = CORE_STAGES.map(stage => ({
+  ...stage,
+  component: STAGE_COMPONENTS[stage.id],
+}));
+
+/** Core flow with plugin stages spliced in front of their `before` stage (the results by default). */
+export const buildStageRegistry = (plugins: StagePlugin[]): StageRegistration[] => {
+  let registry = STAGE_REGISTRY;
+  for (const plugin of plugins) {
+    const before = plugin.before ?? 'results';
+    const predecessor = registry.find(stage => stage.next === before);
+    if (!predecessor) throw new Error(`Stage plugin "${plugin.id}" cannot be placed before "${before}"`);
+    registry = [
+      ...registry.map(stage => (stage === predecessor ? { ...stage, next: plugin.id } : stage)),
+      { ...toStageRegistration(plugin), next: before },
+    ];
+  }
+  return registry;
+};
+
+let cached: { plugins: StagePlugin[]; registry: StageRegistration[] } | null = null;
+
+/** The mission flow including every registered plugin. */
+export const getStageRegistry = (): StageRegistration[] => {
+  const plugins = getStagePlugins();
+  if (cached?.plugins !== plugins) cached = { plugins, registry: buildStageRegistry(plugins) };
+  return cached.registry;
+};
+
+/** Level ids a scenario asks for that no registered stage provides. */
+export const findUnknownLevels = (registry: StageRegistration[], levels: string[] = []) =>
+  levels.filter(id => !registry.some(stage => stage.isLevel && stage.id === id));
+
+/** Route of a stage: `/` for the machine's first stage, `/<id>` for every other one. */
+export const getStagePath = (machine: StageMachine<SimulationState, StageRegistration>, id: string) =>
+  id === machine.stages[0].id ? '/' : `/${id}`;
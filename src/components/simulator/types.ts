@@ -0,0 +1,38 @@
+import type { ComponentType } from 'react';
+import type { SimulationState } from '@/lib/simulation/engine';
+import type { StageDefinition } from '@/lib/simulation/machine';
+import type { RunInput } from '@/lib/simulation/replay';
+import type { Scenario } from '@/lib/simulation/scenario';
+
+/** A level the player can rewind to from its checkpoint. */
+export interface RetryLevel {
+  id: string;
+  title: string;
+  level: number;
+}
+
+export interface StageProps {
+  state: SimulationState;
+  /** Applies a player input and records it for the run's replay; the only way stages change the run. */
+  dispatch: (input: RunInput) => void;
+  title: string;
+  /** Level number shown in the heading, if the stage is a level. */
+  level: number | null;
+  canAdvance: boolean;
+  onAdvance: () => void;
+  onReset: () => void;
+  /** Levels with a checkpoint, in flow order. */
+  retryLevels: RetryLevel[];
+  /** Restores the checkpoint taken on entry to a level and returns to it. */
+  onRetry: (stageId: string) => void;
+  /** Present when an interrupted run was saved and can be picked up again. */
+  onResume?: () => void;
+  /** Present before the mission starts; restarts the run under another scenario. */
+  onSelectScenario?: (scenario: Scenario) => void;
+  /** Saves the inputs of the run so far as a replay file. */
+  onDownloadReplay?: () => void;
+}
+
+export interface StageRegistration extends StageDefinition<SimulationState> {
+  component: ComponentType<StageProps>;
+}
@@ -0,0 +1,16 @@
+import * as React from "react";
+import { analytics, saveAnalyticsConsent } from "@/lib/simulation/analytics";
+import { getBrowserStorage } from "@/lib/simulation/persistence";
+
+/** Whether the player agreed to share play analytics, and a setter that remembers the choice. */
+export function useAnalyticsConsent() {
+  const [granted, setGranted] = React.useState(() => analytics.hasConsent());
+
+  const setConsent = React.useCallback((value: boolean) => {
+    saveAnalyticsConsent(getBrowserStorage(), value);
+    analytics.setConsent(value);
+    setGranted(value);
+  }, []);
+
+  return [granted, setConsent] as const;
+}
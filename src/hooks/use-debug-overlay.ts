@@ -0,0 +1,25 @@
+import * as React from "react";
+import { useSearchParams } from "react-router-dom";
+
+/** Ctrl+Alt+D; matched on the physical key so layouts and macOS Option characters don't matter. */
+const isToggleShortcut = (event: KeyboardEvent) => event.ctrlKey && event.altKey && event.code === "KeyD";
+
+/** Open state of the developer debug overlay: starts open with `?debug=1`, toggled by Ctrl+Alt+D. */
+export function useDebugOverlay() {
+  const [searchParams] = useSearchParams();
+  const [open, setOpen] = React.useState(() => searchParams.get("debug") === "1");
+
+  React.useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!isToggleShortcut(event)) return;
+      event.preventDefault();
+      setOpen(value => !value);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const close = React.useCallback(() => setOpen(false), []);
+
+  return { open, close };
+}
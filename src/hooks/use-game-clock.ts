@@ -0,0 +1,21 @@
+import * as React from "react";
+import { createGameClock, type GameClock } from "@/lib/simulation/clock";
+
+/**
+ * One fixed-timestep clock per simulator instance. Timed stages subscribe to
+ * it; a running clock pauses itself when the tab is hidden.
+ */
+export function useGameClock() {
+  const [clock] = React.useState<GameClock>(() => createGameClock());
+  const status = React.useSyncExternalStore(clock.onStatusChange, clock.getStatus);
+
+  React.useEffect(() => {
+    const onVisibilityChange = () => {
+      if (document.hidden && clock.isActive()) clock.pause();
+    };
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", onVisibilityChange);
+  }, [clock]);
+
+  return { clock, ...status };
+}
@@ -0,0 +1,66 @@
+import * as React from "react";
+import type { SimulationState } from "@/lib/simulation/engine";
+import { clearRun, getBrowserStorage, loadRun, saveRun } from "@/lib/simulation/persistence";
+
+/** Longest a change waits before it is written; timed stages change the state many times a second. */
+export const SAVE_DELAY = 1000;
+
+/**
+ * Auto-saves the run while `shouldSave` holds, so an interrupted mission can
+ * be picked up again after a reload. Stage changes are written straight away,
+ * anything else at most once per `SAVE_DELAY` and when the page is hidden.
+ */
+export function useSavedRun(state: SimulationState, shouldSave: boolean) {
+  const [hasSave, setHasSave] = React.useState(() => loadRun(getBrowserStorage()) !== null);
+  const pendingRef = React.useRef<SimulationState | null>(null);
+  const timerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const cancel = React.useCallback(() => {
+    if (timerRef.current !== null) clearTimeout(timerRef.current);
+    timerRef.current = null;
+  }, []);
+
+  const flush = React.useCallback(() => {
+    cancel();
+    if (!pendingRef.current) return;
+    saveRun(getBrowserStorage(), pendingRef.current);
+    pendingRef.current = null;
+  }, [cancel]);
+
+  React.useEffect(() => {
+    if (!shouldSave) return;
+    pendingRef.current = state;
+    setHasSave(true);
+    if (timerRef.current === null) timerRef.current = setTimeout(flush, SAVE_DELAY);
+  }, [state, shouldSave, flush]);
+
+  const { stage } = state;
+  React.useEffect(() => flush(), [stage, flush]);
+
+  React.useEffect(() => {
+    const flushWhenHidden = () => {
+      if (document.visibilityState === "hidden") flush();
+    };
+    window.addEventListener("pagehide", flush);
+    document.addEventListener("visibilitychange", flushWhenHidden);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      document.removeEventListener("visibilitychange", flushWhenHidden);
+      flush();
+    };
+  }, [flush]);
+
+  const load = React.useCallback(() => {
+    flush();
+    return loadRun(getBrowserStorage())?.state ?? null;
+  }, [flush]);
+
+  const clear = React.useCallback(() => {
+    cancel();
+    pendingRef.current = null;
+    clearRun(getBrowserStorage());
+    setHasSave(false);
+  }, [cancel]);
+
+  return { hasSave, load, clear };
+}
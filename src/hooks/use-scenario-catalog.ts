@@ -0,0 +1,58 @@
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { getStageRegistry } from "@/components/simulator/stages";
+import { cacheCatalog, fetchCatalog, loadCachedCatalog } from "@/lib/simulation/catalog";
+import { getBrowserStorage } from "@/lib/simulation/persistence";
+
+export type CatalogStatus = "idle" | "loading" | "ready" | "offline" | "error";
+
+const CATALOG_STALE_TIME = 60 * 60 * 1000;
+
+const getInstalledLevels = () => getStageRegistry().filter(stage => stage.isLevel).map(stage => stage.id);
+
+/**
+ * Loads the catalog at `url` (relative URLs resolve against the page). Falls
+ * back to the copy cached by the last successful load when the request fails.
+ */
+export function useScenarioCatalog(url: string | null) {
+  const resolvedUrl = React.useMemo(() => {
+    if (!url) return null;
+    try {
+      return new URL(url, window.location.href).toString();
+    } catch {
+      return url;
+    }
+  }, [url]);
+
+  const cached = React.useMemo(
+    () => (resolvedUrl ? loadCachedCatalog(getBrowserStorage(), resolvedUrl, getInstalledLevels()) : null),
+    [resolvedUrl],
+  );
+
+  const query = useQuery({
+    queryKey: ["scenario-catalog", resolvedUrl],
+    queryFn: async () => {
+      const result = await fetchCatalog(resolvedUrl, getInstalledLevels());
+      cacheCatalog(getBrowserStorage(), resolvedUrl, result.catalog);
+      return result;
+    },
+    enabled: resolvedUrl !== null,
+    staleTime: CATALOG_STALE_TIME,
+    retry: 1,
+  });
+
+  const getStatus = (): CatalogStatus => {
+    if (resolvedUrl === null) return "idle";
+    if (query.data) return "ready";
+    if (query.isError) return cached ? "offline" : "error";
+    return "loading";
+  };
+
+  return {
+    status: getStatus(),
+    /** The fetched catalog, else the cached copy while loading or offline. */
+    catalog: query.data?.catalog ?? cached,
+    /** Entries of the fetched catalog that were skipped, or why the fetch failed. */
+    errors: query.data?.errors ?? (query.error ? [query.error.message] : []),
+  };
+}
@@ -0,0 +1,101 @@
+import * as React from "react";
+import type { RunScenario, ScenarioResult } from "@/lib/simulation/batch";
+import type { SimulationWorkerRequest, SimulationWorkerResponse } from "@/lib/simulation/worker-protocol";
+
+export interface BatchProgress {
+  running: boolean;
+  completed: number;
+  total: number;
+}
+
+interface PendingJob {
+  resolve: (results: ScenarioResult[] | null) => void;
+  reject: (error: Error) => void;
+}
+
+const IDLE: BatchProgress = { running: false, completed: 0, total: 0 };
+
+/**
+ * Runs batches of scenarios on a background worker. `runBatch` resolves with
+ * the results in scenario order, or `null` when the batch was cancelled.
+ */
+export function useSimulationWorker() {
+  const workerRef = React.useRef<Worker | null>(null);
+  const jobsRef = React.useRef(new Map<number, PendingJob>());
+  const nextJobRef = React.useRef(0);
+  const activeJobRef = React.useRef<number | null>(null);
+  const [progress, setProgress] = React.useState<BatchProgress>(IDLE);
+
+  const getWorker = React.useCallback(() => {
+    if (workerRef.current) return workerRef.current;
+    const worker = new Worker(new URL("../workers/simulation.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<SimulationWorkerResponse>) => {
+      const message = event.data;
+      const job = jobsRef.current.get(message.jobId);
+      if (!job) return;
+      if (message.type === "progress") {
+        // A superseded job may still report progress until it sees its cancel
+        if (activeJobRef.current === message.jobId) {
+          setProgress({ running: true, completed: message.completed, total: message.total });
+        }
+        return;
+      }
+      jobsRef.current.delete(message.jobId);
+      if (activeJobRef.current === message.jobId) {
+        activeJobRef.current = null;
+        setProgress(IDLE);
+      }
+      if (message.type === "done") job.resolve(message.results);
+      else if (message.type === "cancelled") job.resolve(null);
+      else job.reject(new Error(message.message));
+    };
+    // The worker failed to load or threw outside a job: nothing pending will be answered
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      worker.terminate();
+      workerRef.current = null;
+      activeJobRef.current = null;
+      setProgress(IDLE);
+      const error = new Error(event.message || "The simulation worker failed");
+      jobsRef.current.forEach(job => job.reject(error));
+      jobsRef.current.clear();
+    };
+    workerRef.current = worker;
+    return worker;
+  }, []);
+
+  const post = React.useCallback(
+    (request: SimulationWorkerRequest) => getWorker().postMessage(request),
+    [getWorker],
+  );
+
+  const cancel = React.useCallback(() => {
+    if (activeJobRef.current !== null) post({ type: "cancel", jobId: activeJobRef.current });
+  }, [post]);
+
+  const runBatch = React.useCallback(
+    (scenarios: RunScenario[]) => {
+      cancel();
+      const jobId = nextJobRef.current++;
+      activeJobRef.current = jobId;
+      setProgress({ running: true, completed: 0, total: scenarios.length });
+      return new Promise<ScenarioResult[] | null>((resolve, reject) => {
+        jobsRef.current.set(jobId, { resolve, reject });
+        post({ type: "run", jobId, scenarios });
+      });
+    },
+    [cancel, post],
+  );
+
+  React.useEffect(() => {
+    const jobs = jobsRef.current;
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      jobs.forEach(job => job.resolve(null));
+      jobs.clear();
+    };
+  }, []);
+
+  return { runBatch, cancel, progress };
+}
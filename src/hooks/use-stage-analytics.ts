@@ -0,0 +1,38 @@
+import * as React from "react";
+import { getStagePlugins } from "@/components/simulator/plugins";
+import { analytics } from "@/lib/simulation/analytics";
+import type { SimulationState } from "@/lib/simulation/engine";
+import { computeMissionResults } from "@/lib/simulation/plugins";
+
+/**
+ * Reports stage changes of the run to the analytics bus: how long each stage
+ * took, when a run leaves the `firstStage` and its scores once it reaches `lastStage`.
+ */
+export function useStageAnalytics(state: SimulationState, firstStage: string, lastStage: string) {
+  const latest = React.useRef(state);
+  latest.current = state;
+  const entered = React.useRef<{ stage: string; at: number } | null>(null);
+
+  React.useEffect(() => {
+    const run = latest.current;
+    const now = Date.now();
+    const previous = entered.current;
+    entered.current = { stage: run.stage, at: now };
+    if (!previous) return;
+
+    analytics.track("stageExited", { stage: previous.stage, to: run.stage, durationMs: now - previous.at });
+    analytics.track("stageEntered", { stage: run.stage, from: previous.stage });
+    if (previous.stage === firstStage) analytics.track("runStarted", { seed: run.seed, scenario: run.scenario.id });
+    if (run.stage === lastStage) {
+      const results = computeMissionResults(run, getStagePlugins());
+      analytics.track("runCompleted", {
+        seed: run.seed,
+        scenario: run.scenario.id,
+        overallEfficiency: results.overallEfficiency,
+        sortingRecovery: results.sortingRecovery,
+        condensationQuality: results.condensationQuality,
+        productValue: results.productValue,
+      });
+    }
+  }, [state.stage, firstStage, lastStage]);
+}
@@ -0,0 +1,191 @@
+// Minimal animated GIF encoder. Frames are mapped onto a fixed 6×7×6 colour
+// cube rather than a per-frame palette: the game's flat colours survive it
+// well, and it keeps encoding a single pass over the pixels.
+
+const RED_LEVELS = 6;
+const GREEN_LEVELS = 7;
+const BLUE_LEVELS = 6;
+const MIN_CODE_SIZE = 8;
+const MAX_CODES = 4096;
+
+/** The 256-entry global colour table as RGB triplets; the last four entries are unused black. */
+export const GIF_PALETTE: Uint8Array = (() => {
+  const palette = new Uint8Array(256 * 3);
+  let offset = 0;
+  for (let r = 0; r < RED_LEVELS; r++) {
+    for (let g = 0; g < GREEN_LEVELS; g++) {
+      for (let b = 0; b < BLUE_LEVELS; b++) {
+        palette[offset++] = Math.round((r * 255) / (RED_LEVELS - 1));
+        palette[offset++] = Math.round((g * 255) / (GREEN_LEVELS - 1));
+        palette[offset++] = Math.round((b * 255) / (BLUE_LEVELS - 1));
+      }
+    }
+  }
+  return palette;
+})();
+
+/** Palette index of the colour nearest to each RGBA pixel; alpha is ignored. */
+export const quantize = (rgba: Uint8ClampedArray | Uint8Array): Uint8Array => {
+  const indices = new Uint8Array(rgba.length / 4);
+  for (let i = 0; i < indices.length; i++) {
+    const r = Math.round((rgba[i * 4] * (RED_LEVELS - 1)) / 255);
+    const g = Math.round((rgba[i * 4 + 1] * (GREEN_LEVELS - 1)) / 255);
+    const b = Math.round((rgba[i * 4 + 2] * (BLUE_LEVELS - 1)) / 255);
+    indices[i] = (r * GREEN_LEVELS + g) * BLUE_LEVELS + b;
+  }
+  return indices;
+};
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private current = new Uint8Array(64 * 1024);
+  private length = 0;
+
+  byte(value: number) {
+    if (this.length === this.current.length) {
+      this.chunks.push(this.current);
+      this.current = new Uint8Array(this.current.length);
+      this.length = 0;
+    }
+    this.current[this.length++] = value;
+  }
+
+  word(value: number) {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  text(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  toArray() {
+    const parts = [...this.chunks, this.current.subarray(0, this.length)];
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+}
+
+/** LZW-compresses palette indices and writes them as GIF data sub-blocks. */
+const writeImageData = (out: ByteWriter, indices: Uint8Array) => {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  const table = new Map<number, number>();
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block[blockLength++] = bits & 0xff;
+      bits >>>= 8;
+      bitCount -= 8;
+      if (blockLength === 255) flushBlock();
+    }
+  };
+  const flushBlock = () => {
+    if (blockLength === 0) return;
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+    blockLength = 0;
+  };
+
+  out.byte(MIN_CODE_SIZE);
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODES) {
+      // Table full: start a fresh one rather than growing past 12-bit codes
+      emit(clearCode);
+      table.clear();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = index;
+  }
+  emit(prefix);
+  // The decoder adds a table entry for the last code too, which can widen the end code
+  if (nextCode < MAX_CODES && nextCode >= 1 << codeSize) codeSize++;
+  emit(endCode);
+  if (bitCount > 0) {
+    block[blockLength++] = bits & 0xff;
+    if (blockLength === 255) flushBlock();
+  }
+  flushBlock();
+  out.byte(0);
+};
+
+export interface GifEncoder {
+  /** Adds an RGBA frame of the encoder's size, shown for `delay` milliseconds. */
+  addFrame: (rgba: Uint8ClampedArray | Uint8Array, delay: number) => void;
+  /** Finishes the file; no frames can be added afterwards. */
+  finish: () => Uint8Array;
+}
+
+/** Encodes an endlessly looping animation of `width` × `height` frames. */
+export const createGifEncoder = (width: number, height: number): GifEncoder => {
+  const out = new ByteWriter();
+  out.text("GIF89a");
+  out.word(width);
+  out.word(height);
+  // Global colour table of 2^(7+1) entries, 8 bits per primary
+  out.byte(0xf7);
+  out.byte(0);
+  out.byte(0);
+  out.bytes(GIF_PALETTE);
+  // NETSCAPE2.0 application extension: loop forever
+  out.bytes([0x21, 0xff, 0x0b]);
+  out.text("NETSCAPE2.0");
+  out.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+  let finished = false;
+
+  return {
+    addFrame: (rgba, delay) => {
+      if (finished) throw new Error("The GIF is already finished");
+      if (rgba.length !== width * height * 4) throw new Error(`Frame must be ${width}×${height} RGBA pixels`);
+      // Graphic control extension: the frame's delay, in hundredths of a second
+      out.bytes([0x21, 0xf9, 0x04, 0x00]);
+      out.word(Math.max(2, Math.round(delay / 10)));
+      out.bytes([0x00, 0x00]);
+      // Image descriptor covering the whole canvas, using the global colour table
+      out.byte(0x2c);
+      out.word(0);
+      out.word(0);
+      out.word(width);
+      out.word(height);
+      out.byte(0);
+      writeImageData(out, quantize(rgba));
+    },
+    finish: () => {
+      if (!finished) out.byte(0x3b);
+      finished = true;
+      return out.toArray();
+    },
+  };
+};
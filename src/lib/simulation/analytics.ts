@@ -0,0 +1,252 @@
+// Play analytics. The game reports what players do as typed events; sinks
+// decide where the events go (console, a local ring buffer, a collection
+// endpoint). Nothing is tracked until the player has agreed to it.
+
+import type { FeedMix } from "./feedstocks";
+import type { RunStorage } from "./persistence";
+import type { ProductType } from "./products";
+
+export interface AnalyticsEventMap {
+  runStarted: { seed: number; scenario: string };
+  stageEntered: { stage: string; from: string };
+  /** The player left `stage` after `durationMs` on it. */
+  stageExited: { stage: string; to: string; durationMs: number };
+  levelRetried: { stage: string };
+  feedstockChanged: { plasticRatio: number; mix: FeedMix };
+  cellHeated: { row: number; col: number; heat: number };
+  dechlorinationToggled: { enabled: boolean; feedChlorine: number };
+  productDropped: { product: ProductType; bin: ProductType; correct: boolean };
+  coolingStarted: { power: number };
+  coolingPowerChanged: { power: number };
+  runCompleted: {
+    seed: number;
+    scenario: string;
+    overallEfficiency: number;
+    sortingRecovery: number;
+    condensationQuality: number;
+    productValue: number;
+  };
+}
+
+export type AnalyticsEventName = keyof AnalyticsEventMap;
+
+export interface AnalyticsEvent<TName extends AnalyticsEventName = AnalyticsEventName> {
+  name: TName;
+  data: AnalyticsEventMap[TName];
+  /** Epoch milliseconds. */
+  at: number;
+  /** Random id shared by the events of one page load; not linked to the player. */
+  session: string;
+}
+
+export interface AnalyticsSink {
+  id: string;
+  send: (event: AnalyticsEvent) => void;
+  /** Delivers anything still buffered, e.g. before the page is closed. */
+  flush?: () => void;
+  /** Drops everything buffered or kept without delivering it, e.g. when consent is withdrawn. */
+  clear?: () => void;
+}
+
+export interface Analytics {
+  track: <TName extends AnalyticsEventName>(name: TName, data: AnalyticsEventMap[TName]) => void;
+  /** Adds a sink; returns a function that removes it again. */
+  addSink: (sink: AnalyticsSink) => () => void;
+  hasConsent: () => boolean;
+  setConsent: (granted: boolean) => void;
+  flush: () => void;
+}
+
+export interface AnalyticsOptions {
+  consent?: boolean;
+  session?: string;
+  now?: () => number;
+}
+
+const createSessionId = () => Math.random().toString(36).slice(2, 10);
+
+export const createAnalytics = ({
+  consent = false,
+  session = createSessionId(),
+  now = Date.now,
+}: AnalyticsOptions = {}): Analytics => {
+  let sinks: AnalyticsSink[] = [];
+  let granted = consent;
+
+  const flush = () => sinks.forEach(sink => sink.flush?.());
+
+  return {
+    track: (name, data) => {
+      if (!granted) return;
+      const event: AnalyticsEvent = { name, data, at: now(), session };
+      for (const sink of sinks) {
+        try {
+          sink.send(event);
+        } catch {
+          // A broken sink must never take the game down with it.
+        }
+      }
+    },
+    addSink: sink => {
+      if (sinks.some(existing => existing.id === sink.id)) throw new Error(`Analytics sink "${sink.id}" is already added`);
+      sinks = [...sinks, sink];
+      return () => {
+        sinks = sinks.filter(existing => existing !== sink);
+      };
+    },
+    hasConsent: () => granted,
+    setConsent: value => {
+      // Withdrawn consent covers the events collected so far, so none of them may leave afterwards
+      if (!value) sinks.forEach(sink => sink.clear?.());
+      granted = value;
+    },
+    flush,
+  };
+};
+
+export const createConsoleSink = (log: (...args: unknown[]) => void = console.debug): AnalyticsSink => ({
+  id: "console",
+  send: event => log(`[analytics] ${event.name}`, event.data),
+});
+
+export const ANALYTICS_LOG_KEY = "pyrolysis-sim:analytics";
+
+/**
+ * Keeps the most recent events in storage, e.g. for a classroom device without
+ * network. Events are buffered in memory and written out on flush, so a burst
+ * of events does not rewrite the whole log each time.
+ */
+export const createStorageSink = (storage: RunStorage, capacity = 500): AnalyticsSink => {
+  let events: AnalyticsEvent[] | null = null;
+  let pending = false;
+
+  return {
+    id: "storage",
+    send: event => {
+      // Picks up where the log of earlier page loads left off
+      events ??= readStoredEvents(storage);
+      events.push(event);
+      if (events.length > capacity) events.splice(0, events.length - capacity);
+      pending = true;
+    },
+    flush: () => {
+      if (!pending) return;
+      pending = false;
+      try {
+        storage.setItem(ANALYTICS_LOG_KEY, JSON.stringify(events));
+      } catch {
+        // Ignored: storage is full or unavailable.
+      }
+    },
+    clear: () => {
+      events = [];
+      pending = false;
+      storage.removeItem(ANALYTICS_LOG_KEY);
+    },
+  };
+};
+
+export const readStoredEvents = (storage: RunStorage): AnalyticsEvent[] => {
+  try {
+    const events = JSON.parse(storage.getItem(ANALYTICS_LOG_KEY) ?? "[]");
+    return Array.isArray(events) ? events : [];
+  } catch {
+    return [];
+  }
+};
+
+export interface BeaconSinkOptions {
+  endpoint: string;
+  /** Events sent together; a full batch is sent straight away. */
+  batchSize?: number;
+  /** Longest time, in milliseconds, an event waits for its batch to fill. */
+  maxDelay?: number;
+  /** Queues a POST of `body`; `navigator.sendBeacon` by default. Returns false when the browser refuses. */
+  sendBeacon?: (url: string, body: string) => boolean;
+  setTimer?: (callback: () => void, ms: number) => unknown;
+  clearTimer?: (timer: unknown) => void;
+}
+
+/** Posts events in JSON batches (`{ events: [...] }`); beacons survive the page being closed. */
+export const createBeaconSink = ({
+  endpoint,
+  batchSize = 20,
+  maxDelay = 10_000,
+  sendBeacon = (url, body) => navigator.sendBeacon(url, new Blob([body], { type: "application/json" })),
+  setTimer = (callback, ms) => setTimeout(callback, ms),
+  clearTimer = timer => clearTimeout(timer as ReturnType<typeof setTimeout>),
+}: BeaconSinkOptions): AnalyticsSink => {
+  let batch: AnalyticsEvent[] = [];
+  let timer: unknown = null;
+
+  const flush = () => {
+    if (timer !== null) clearTimer(timer);
+    timer = null;
+    if (batch.length === 0) return;
+    const events = batch;
+    batch = [];
+    try {
+      sendBeacon(endpoint, JSON.stringify({ events }));
+    } catch {
+      // Ignored: analytics are best effort.
+    }
+  };
+
+  return {
+    id: "beacon",
+    send: event => {
+      batch.push(event);
+      if (batch.length >= batchSize) flush();
+      else if (timer === null) timer = setTimer(flush, maxDelay);
+    },
+    flush,
+    clear: () => {
+      if (timer !== null) clearTimer(timer);
+      timer = null;
+      batch = [];
+    },
+  };
+};
+
+export const ANALYTICS_CONSENT_KEY = "pyrolysis-sim:analytics-consent";
+
+/** Consent is opt-in: anything but an explicit "granted" counts as no. */
+export const loadAnalyticsConsent = (storage: RunStorage): boolean => {
+  try {
+    return storage.getItem(ANALYTICS_CONSENT_KEY) === "granted";
+  } catch {
+    return false;
+  }
+};
+
+export const saveAnalyticsConsent = (storage: RunStorage, granted: boolean) => {
+  try {
+    storage.setItem(ANALYTICS_CONSENT_KEY, granted ? "granted" : "denied");
+  } catch {
+    // Ignored: consent then only lasts for this page load.
+  }
+};
+
+/** The game's event bus; sinks are added at start-up (see `main.tsx`). */
+export const analytics = createAnalytics();
+
+export interface AnalyticsSetup {
+  storage: RunStorage;
+  /** Collection endpoint for batched beacons; no beacons are sent without one. */
+  endpoint?: string;
+  /** Also log events to the console, e.g. in development. */
+  console?: boolean;
+}
+
+/** Adds the configured sinks to the game's bus and restores the player's consent. */
+export const installAnalytics = ({ storage, endpoint, console: logToConsole = false }: AnalyticsSetup) => {
+  analytics.setConsent(loadAnalyticsConsent(storage));
+  analytics.addSink(createStorageSink(storage));
+  if (logToConsole) analytics.addSink(createConsoleSink());
+  if (endpoint) analytics.addSink(createBeaconSink({ endpoint }));
+  // Beacons still go out while the page is being hidden or closed
+  window.addEventListener("pagehide", analytics.flush);
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") analytics.flush();
+  });
+};
@@ -0,0 +1,123 @@
+// Headless runs of the full mission for sweeps, uncertainty studies and bots.
+// Each scenario is played through the same engine the UI uses.
+
+import {
+  COOLING_TICK,
+  PRODUCT_TYPES,
+  SimulationResults,
+  SimulationState,
+  computeResults,
+  createInitialState,
+  dropProduct,
+  isSortingRunning,
+  prepareSorting,
+  setDechlorination,
+  setFeed,
+  setPlasticRatio,
+  setStage,
+  startCooling,
+  step,
+} from "./engine";
+import type { FeedMix } from "./feedstocks";
+import type { Scenario } from "./scenario";
+import { CORE_STAGES, getStageOrder } from "./stages";
+
+export interface RunScenario {
+  /** Optional caller reference echoed back with the results. */
+  id?: string;
+  seed?: number;
+  /** Scenario the run is played under; the standard mission by default. */
+  scenario?: Scenario;
+  plasticRatio: number;
+  /** Feed composition; replaces the plastic/biomass pair of `plasticRatio` when given. */
+  mix?: FeedMix;
+  /** Full heat grid, or a single heat level applied to every cell. */
+  heat: number[][] | number;
+  /** Strip HCl before the feed cracks; off by default. */
+  dechlorination?: boolean;
+  /** Products deliberately dropped into the wrong bin during sorting. */
+  sortingLosses?: number;
+  /** Constant cooling power, or one value per cooling tick (the last value holds). */
+  coolingPower: number | number[];
+}
+
+export interface ScenarioResult {
+  id?: string;
+  results: SimulationResults;
+}
+
+const createUniformGrid = (size: number, level: number) =>
+  Array.from({ length: size }, () => Array(size).fill(level));
+
+/** Plays the whole sorting stage, dropping the first `losses` products into a wrong bin. */
+export const playSorting = (state: SimulationState, losses: number): SimulationState => {
+  let next = prepareSorting(setStage(state, "sorting"));
+  while (isSortingRunning(next)) {
+    next = step(next, { coolingPower: 0 }, COOLING_TICK);
+  }
+  for (const product of next.sorting.spawned) {
+    const wrongBin = PRODUCT_TYPES.find(type => type !== product.type);
+    next = dropProduct(next, product.id < losses ? wrongBin : product.type, product.id);
+  }
+  return next;
+};
+
+/** Plays the whole cooling run with the given power (schedule). */
+export const playCooling = (state: SimulationState, coolingPower: number | number[]): SimulationState => {
+  const schedule = Array.isArray(coolingPower) ? coolingPower : [coolingPower];
+  let next = startCooling(setStage(state, "cooling"));
+  const ticks = Math.round(state.scenario.stages.cooling.duration / COOLING_TICK);
+  for (let i = 0; i < ticks; i++) {
+    next = step(next, { coolingPower: schedule[Math.min(i, schedule.length - 1)] ?? 0 }, COOLING_TICK);
+  }
+  return next;
+};
+
+/**
+ * Plays the run through the stages its scenario's `levels` select; the inputs
+ * of a level the scenario leaves out are ignored, as the player never gets to make them.
+ */
+export const runScenario = (scenario: RunScenario): SimulationResults => {
+  let state = createInitialState(scenario.seed ?? 0, scenario.scenario);
+  const order = getStageOrder(CORE_STAGES, state.scenario.levels) ?? CORE_STAGES.map(stage => stage.id);
+  if (order.includes("feedstock")) {
+    state = scenario.mix ? setFeed(state, scenario.mix) : setPlasticRatio(state, scenario.plasticRatio);
+  }
+  if (order.includes("heating")) {
+    state = setDechlorination(state, scenario.dechlorination ?? false);
+    state = {
+      ...state,
+      heatGrid:
+        typeof scenario.heat === "number"
+          ? createUniformGrid(state.scenario.stages.heating.gridSize, scenario.heat)
+          : scenario.heat,
+    };
+  }
+  if (order.includes("sorting")) state = playSorting(state, scenario.sortingLosses ?? 0);
+  if (order.includes("cooling")) state = playCooling(state, scenario.coolingPower);
+  return computeResults(setStage(state, "results"));
+};
+
+export interface BatchOptions {
+  /** Scenarios run between yields to the event loop (so cancel messages get through). */
+  chunkSize?: number;
+  onProgress?: (completed: number, total: number) => void;
+  isCancelled?: () => boolean;
+}
+
+/** Runs scenarios in chunks; resolves with `null` if cancelled part-way. */
+export const runBatch = async (
+  scenarios: RunScenario[],
+  { chunkSize = 50, onProgress, isCancelled = () => false }: BatchOptions = {},
+): Promise<ScenarioResult[] | null> => {
+  const output: ScenarioResult[] = [];
+  for (let start = 0; start < scenarios.length; start += chunkSize) {
+    if (isCancelled()) return null;
+    for (const scenario of scenarios.slice(start, start + chunkSize)) {
+      output.push({ id: scenario.id, results: runScenario(scenario) });
+    }
+    onProgress?.(output.length, scenarios.length);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  return isCancelled() ? null : output;
+};
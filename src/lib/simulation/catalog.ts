@@ -0,0 +1,155 @@
+// Scenario catalogs. The game ships a small library of scenarios; schools can
+// host their own catalog file and point the game at it with `?catalog=<url>`.
+// The last catalog fetched from a URL is kept in storage so the library still
+// works when the school network (or the hosting) is down.
+
+import { z } from "zod";
+import type { RunStorage } from "./persistence";
+import { DEFAULT_SCENARIO, formatScenarioIssues, parseScenario, scenarioSchema, type Scenario } from "./scenario";
+
+export const CATALOG_VERSION = 1;
+export const CATALOG_CACHE_KEY = "pyrolysis-sim:catalog";
+
+const catalogSchema = z
+  .object({
+    version: z.literal(CATALOG_VERSION, {
+      errorMap: () => ({ message: `Unsupported catalog version, expected ${CATALOG_VERSION}` }),
+    }),
+    title: z.string().default(""),
+    /** Scenario documents, validated one by one so a single bad entry does not hide the rest. */
+    scenarios: z.array(z.unknown()).min(1),
+  })
+  .strict();
+
+export interface ScenarioCatalog {
+  title: string;
+  scenarios: Scenario[];
+}
+
+export interface CatalogParseResult {
+  /** The valid scenarios of the catalog, or `null` when none could be read. */
+  catalog: ScenarioCatalog | null;
+  errors: string[];
+}
+
+export const BUNDLED_CATALOG: ScenarioCatalog = {
+  title: "Scenario library",
+  scenarios: [
+    DEFAULT_SCENARIO,
+    scenarioSchema.parse({
+      version: 1,
+      id: "municipal-plastics",
+      title: "Municipal plastics",
+      description: "Kerbside plastic waste with a little paper mixed in. Waxy output and a stricter heating target.",
+      difficulty: "medium",
+      feedstocks: {
+        plastic: {
+          yields: { liquidFuel: 0.5, wax: 0.15, syngas: 0.2, tar: 0.05, biochar: 0.07, ash: 0.03 },
+        },
+      },
+      stages: {
+        feedstock: {
+          plasticRatio: 80,
+          mix: [
+            { id: "pe", share: 45 },
+            { id: "pp", share: 35 },
+            { id: "paper", share: 20 },
+          ],
+        },
+        heating: { threshold: 80 },
+        sorting: { productCount: 18 },
+      },
+      targets: { sortingRecovery: 80 },
+    }),
+    scenarioSchema.parse({
+      version: 1,
+      id: "agricultural-residue",
+      title: "Agricultural residue",
+      description: "Straw and husks from local farms. Mostly biochar and gas, with plenty of water to condense out.",
+      difficulty: "easy",
+      feedstocks: {
+        biomass: {
+          yields: { liquidFuel: 0.15, syngas: 0.3, tar: 0.07, aqueous: 0.15, biochar: 0.3, ash: 0.03 },
+        },
+      },
+      stages: {
+        feedstock: { plasticRatio: 10 },
+        sorting: { productCount: 12, spawnInterval: 2 },
+        cooling: { optimalGasTemp: 350 },
+      },
+    }),
+    scenarioSchema.parse({
+      version: 1,
+      id: "rush-hour",
+      title: "Rush hour",
+      description: "A full hopper and a tight schedule: hotter reactor, faster conveyor and a shorter cooling run.",
+      difficulty: "hard",
+      stages: {
+        heating: { threshold: 85 },
+        sorting: { productCount: 25, spawnInterval: 0.9 },
+        cooling: { duration: 12, initialGasTemp: 700 },
+      },
+      targets: { overallEfficiency: 70, sortingRecovery: 90 },
+    }),
+  ],
+};
+
+/**
+ * Validates a catalog document. Scenarios asking for a level outside
+ * `installedLevels` are skipped, as the game could not run them.
+ */
+export const parseCatalog = (input: unknown, installedLevels: string[]): CatalogParseResult => {
+  const parsed = catalogSchema.safeParse(input);
+  if (!parsed.success) return { catalog: null, errors: formatScenarioIssues(parsed.error) };
+
+  const scenarios: Scenario[] = [];
+  const errors: string[] = [];
+  parsed.data.scenarios.forEach((entry, index) => {
+    const result = parseScenario(entry);
+    const unknownLevels = result.scenario?.levels?.filter(id => !installedLevels.includes(id)) ?? [];
+    const entryErrors = result.scenario
+      ? unknownLevels.map(id => `levels: No stage called "${id}" is installed`)
+      : result.errors;
+    if (entryErrors.length === 0) scenarios.push(result.scenario);
+    else errors.push(...entryErrors.map(error => `scenarios.${index}.${error}`));
+  });
+  return { catalog: scenarios.length > 0 ? { title: parsed.data.title, scenarios } : null, errors };
+};
+
+/** Fetches and validates a catalog; rejects when nothing usable comes back. */
+export const fetchCatalog = async (
+  url: string,
+  installedLevels: string[],
+  fetcher: typeof fetch = fetch,
+): Promise<CatalogParseResult> => {
+  const response = await fetcher(url);
+  if (!response.ok) throw new Error(`Catalog request failed (${response.status})`);
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch (error) {
+    throw new Error(`Catalog is not valid JSON (${(error as Error).message})`);
+  }
+  const result = parseCatalog(data, installedLevels);
+  if (!result.catalog) throw new Error(result.errors.join("\n"));
+  return result;
+};
+
+const cacheKey = (url: string) => `${CATALOG_CACHE_KEY}:${url}`;
+
+export const cacheCatalog = (storage: RunStorage, url: string, catalog: ScenarioCatalog) => {
+  try {
+    storage.setItem(cacheKey(url), JSON.stringify({ version: CATALOG_VERSION, ...catalog }));
+  } catch {
+    // Ignored: the catalog is simply not available offline.
+  }
+};
+
+export const loadCachedCatalog = (storage: RunStorage, url: string, installedLevels: string[]): ScenarioCatalog | null => {
+  try {
+    const raw = storage.getItem(cacheKey(url));
+    return raw ? parseCatalog(JSON.parse(raw), installedLevels).catalog : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,127 @@
+// Chlorine contamination. Chlorine comes in with the feed, almost all of it in
+// PVC, and leaves the polymer as HCl once the reactor passes ~250 °C. Some of
+// that HCl recombines with the cracking vapours into organic chlorides that
+// end up in the liquid fuel; the rest leaves with the gas and corrodes the
+// plant. Dechlorination holds the feed below cracking temperature first so the
+// HCl can be stripped into an alkaline scrubber before any vapour forms.
+
+import { getComponentProximate, getFeedstock, getMixTotal, type FeedMix } from "./feedstocks";
+import { getCellTemperature, rateConstant, type Arrhenius } from "./kinetics";
+import { PRODUCTS } from "./products";
+import type { Scenario } from "./scenario";
+
+/** Dehydrochlorination of PVC: about 1 %/s at 300 °C. */
+export const DEHYDROCHLORINATION: Arrhenius = { A: 7e9, Ea: 130 };
+
+/** Mass of HCl per unit mass of chlorine. */
+const HCL_PER_CL = 36.46 / 35.45;
+/** Share of the free HCl recombining into organic chlorides in the vapour. */
+const ORGANIC_CHLORIDE_SHARE = 0.1;
+/** Share of the released HCl a dechlorination hold strips out. */
+export const DECHLORINATION_EFFICIENCY = 0.97;
+
+/** Organic chlorine (ppm) liquid fuel may carry and still sell at full price. */
+export const FUEL_CHLORINE_LIMIT = 50;
+/** Organic chlorine (ppm) at which the fuel only sells as low-grade kiln fuel. */
+const FUEL_CHLORINE_OFF_SPEC = 1000;
+/** Value of off-spec fuel relative to fuel within the limit. */
+const OFF_SPEC_VALUE = 0.3;
+
+/** HCl left in the gas (kg per tonne of feed) that maxes out the corrosion risk. */
+const CORROSION_SCALE = 5;
+/** USD per tonne of feed: maintenance at full corrosion risk, and running a dechlorination hold. */
+const CORROSION_COST = 80;
+const DECHLORINATION_COST = 10;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export interface ChlorineReport {
+  /** Chlorine in the feed as received, % of its mass. */
+  feedChlorine: number;
+  /** HCl driven off in the reactor, kg per tonne of feed. */
+  hclReleased: number;
+  /** HCl stripped into the scrubber by dechlorination, kg per tonne of feed. */
+  hclCaptured: number;
+  /** HCl leaving with the gas, kg per tonne of feed. */
+  hclInGas: number;
+  /** Organic chlorine in the liquid fuel, ppm by mass. */
+  fuelChlorine: number;
+  /** How well the liquid fuel meets the chlorine limit, 0–100. */
+  fuelQuality: number;
+  /** Corrosion risk to the plant from HCl in the gas, 0–100. */
+  corrosion: number;
+  /** Deductions from the product value, USD per tonne of feed. */
+  penalties: { fuelQuality: number; corrosion: number; dechlorination: number };
+}
+
+/** Chlorine in the mix as received, % of its mass. */
+export const getMixChlorine = (mix: FeedMix) => {
+  const total = getMixTotal(mix);
+  if (total <= 0) return 0;
+  return (
+    mix.reduce((sum, component) => {
+      const { moisture, ash } = getComponentProximate(component);
+      return sum + component.share * ((100 - moisture - ash) / 100) * getFeedstock(component.id).ultimate.Cl;
+    }, 0) / total
+  );
+};
+
+/** Share of the feed's chlorine driven off as HCl over the heat grid, 0..1. */
+export const getChlorineRelease = (heatGrid: number[][], scenario: Scenario) => {
+  const cells = heatGrid.flat();
+  const { residenceTime } = scenario.stages.heating;
+  return (
+    cells.reduce(
+      (sum, heat) => sum + 1 - Math.exp(-rateConstant(DEHYDROCHLORINATION, getCellTemperature(heat, scenario)) * residenceTime),
+      0,
+    ) / cells.length
+  );
+};
+
+export interface ChlorineInput {
+  feed: FeedMix;
+  heatGrid: number[][];
+  scenario: Scenario;
+  dechlorination: boolean;
+}
+
+const liquidFuel = PRODUCTS.find(product => product.id === "liquidFuel");
+
+/** Where the feed's chlorine ends up, and what it costs, given the liquid fuel the run recovered (% of feed). */
+export const getChlorineReport = (
+  { feed, heatGrid, scenario, dechlorination }: ChlorineInput,
+  liquidFuelYield: number,
+): ChlorineReport => {
+  const feedChlorine = getMixChlorine(feed);
+  // % of feed mass is 10 kg per tonne
+  const hclReleased = feedChlorine * getChlorineRelease(heatGrid, scenario) * HCL_PER_CL * 10;
+  const hclCaptured = dechlorination ? hclReleased * DECHLORINATION_EFFICIENCY : 0;
+  const hclFree = hclReleased - hclCaptured;
+  const hclInGas = hclFree * (1 - ORGANIC_CHLORIDE_SHARE);
+
+  // kg of chlorine per tonne of feed over kg of fuel per tonne of feed, in ppm
+  const organicChlorine = (hclFree * ORGANIC_CHLORIDE_SHARE) / HCL_PER_CL;
+  const fuelChlorine = liquidFuelYield > 0 ? (organicChlorine / (liquidFuelYield * 10)) * 1e6 : 0;
+  const fuelQuality =
+    100 * clamp((FUEL_CHLORINE_OFF_SPEC - fuelChlorine) / (FUEL_CHLORINE_OFF_SPEC - FUEL_CHLORINE_LIMIT), 0, 1);
+  const corrosion = clamp((hclInGas / CORROSION_SCALE) * 100, 0, 100);
+
+  const fuelValue = (liquidFuelYield / 100) * liquidFuel.value;
+  return {
+    feedChlorine,
+    hclReleased,
+    hclCaptured,
+    hclInGas,
+    fuelChlorine,
+    fuelQuality,
+    corrosion,
+    penalties: {
+      fuelQuality: fuelValue * (1 - OFF_SPEC_VALUE) * (1 - fuelQuality / 100),
+      corrosion: (corrosion / 100) * CORROSION_COST,
+      dechlorination: dechlorination ? DECHLORINATION_COST : 0,
+    },
+  };
+};
+
+export const getPenaltyTotal = ({ penalties }: ChlorineReport) =>
+  penalties.fuelQuality + penalties.corrosion + penalties.dechlorination;
@@ -0,0 +1,72 @@
+// Frames of a replay for exporting it as a clip. A clip samples the replay at
+// a fixed frame rate, sped up by `speed`; every frame carries the cooling
+// temperature trace up to that point, since a single state only knows the
+// current temperature.
+
+import type { SimulationState } from "./engine";
+import { createReplayCursor, type ReplayContext, type ReplayFile } from "./replay";
+
+export type ClipFormat = "webm" | "gif";
+
+export const CLIP_RESOLUTIONS = [
+  { id: "480p", width: 854, height: 480 },
+  { id: "720p", width: 1280, height: 720 },
+  { id: "1080p", width: 1920, height: 1080 },
+] as const;
+
+export type ClipResolution = (typeof CLIP_RESOLUTIONS)[number]["id"];
+
+export const CLIP_SPEEDS = [1, 2, 4, 8];
+
+/** GIFs get fewer frames: their delays are whole hundredths of a second, and every frame is a full image. */
+export const CLIP_FRAME_RATES: Record<ClipFormat, number> = { webm: 30, gif: 10 };
+
+export interface ClipOptions {
+  format: ClipFormat;
+  resolution: ClipResolution;
+  speed: number;
+}
+
+export interface CoolingSample {
+  /** Seconds into the cooling run. */
+  time: number;
+  gasTemp: number;
+}
+
+export interface ClipFrame {
+  /** Milliseconds into the replay. */
+  at: number;
+  state: SimulationState;
+  coolingTrace: CoolingSample[];
+}
+
+export const getClipSize = (resolution: ClipResolution) => {
+  const { width, height } = CLIP_RESOLUTIONS.find(option => option.id === resolution) ?? CLIP_RESOLUTIONS[0];
+  return { width, height };
+};
+
+/** Number of frames for a replay of `duration` ms; the last frame shows the end of the run. */
+export const getClipFrameCount = (duration: number, { format, speed }: Pick<ClipOptions, "format" | "speed">) =>
+  Math.ceil((duration / 1000 / speed) * CLIP_FRAME_RATES[format]) + 1;
+
+/** Plays the replay forward, one state per frame of the clip. */
+export function* createClipFrames(
+  replay: ReplayFile,
+  context: ReplayContext,
+  options: Pick<ClipOptions, "format" | "speed">,
+): Generator<ClipFrame> {
+  const cursor = createReplayCursor(replay, context);
+  const frames = getClipFrameCount(cursor.duration, options);
+  const frameTime = (1000 * options.speed) / CLIP_FRAME_RATES[options.format];
+  let coolingTrace: CoolingSample[] = [];
+
+  for (let frame = 0; frame < frames; frame++) {
+    const at = Math.min(cursor.duration, frame * frameTime);
+    const state = cursor.seek(at);
+    const { started, time, gasTemp } = state.cooling;
+    // A retried cooling level starts its trace over
+    if (!started || time < (coolingTrace[coolingTrace.length - 1]?.time ?? 0)) coolingTrace = [];
+    if (started) coolingTrace = [...coolingTrace, { time, gasTemp }];
+    yield { at, state, coolingTrace };
+  }
+}
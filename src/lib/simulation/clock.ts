@@ -0,0 +1,114 @@
+// Fixed-timestep game clock. Real frame time from requestAnimationFrame is
+// scaled by the playback speed and fed to subscribers in equal `timestep`
+// slices, so the simulation advances identically regardless of frame rate.
+
+import { COOLING_TICK } from "./engine";
+
+export type ClockSpeed = 0.5 | 1 | 2;
+
+export const CLOCK_SPEEDS: ClockSpeed[] = [0.5, 1, 2];
+
+export type TickListener = (dt: number) => void;
+
+export interface ClockStatus {
+  paused: boolean;
+  speed: ClockSpeed;
+}
+
+export interface GameClock {
+  subscribe: (listener: TickListener) => () => void;
+  onStatusChange: (listener: (status: ClockStatus) => void) => () => void;
+  getStatus: () => ClockStatus;
+  pause: () => void;
+  resume: () => void;
+  setSpeed: (speed: ClockSpeed) => void;
+  /** Whether any timed stage is currently subscribed. */
+  isActive: () => boolean;
+}
+
+export interface GameClockOptions {
+  timestep?: number;
+  /** Longest real-time gap a single frame may account for, to avoid a burst of ticks after a stall. */
+  maxFrameTime?: number;
+  requestFrame?: (callback: (now: number) => void) => number;
+  cancelFrame?: (handle: number) => void;
+}
+
+export const createGameClock = ({
+  timestep = COOLING_TICK,
+  maxFrameTime = 0.25,
+  requestFrame = callback => window.requestAnimationFrame(callback),
+  cancelFrame = handle => window.cancelAnimationFrame(handle),
+}: GameClockOptions = {}): GameClock => {
+  const listeners = new Set<TickListener>();
+  const statusListeners = new Set<(status: ClockStatus) => void>();
+  let status: ClockStatus = { paused: false, speed: 1 };
+  let frame: number | null = null;
+  let lastFrame: number | null = null;
+  let accumulator = 0;
+
+  const emitStatus = () => statusListeners.forEach(listener => listener(status));
+
+  const tick = (dt: number) => listeners.forEach(listener => listener(dt));
+
+  const onFrame = (now: number) => {
+    frame = null;
+    if (lastFrame !== null) {
+      accumulator += Math.min(maxFrameTime, (now - lastFrame) / 1000) * status.speed;
+      while (accumulator >= timestep) {
+        accumulator -= timestep;
+        tick(timestep);
+      }
+    }
+    lastFrame = now;
+    schedule();
+  };
+
+  const schedule = () => {
+    if (frame !== null || status.paused || listeners.size === 0) return;
+    frame = requestFrame(onFrame);
+  };
+
+  const stop = () => {
+    if (frame !== null) cancelFrame(frame);
+    frame = null;
+    lastFrame = null;
+  };
+
+  const setStatus = (next: Partial<ClockStatus>) => {
+    status = { ...status, ...next };
+    emitStatus();
+  };
+
+  const pause = () => {
+    if (status.paused) return;
+    stop();
+    setStatus({ paused: true });
+  };
+
+  const resume = () => {
+    if (!status.paused) return;
+    setStatus({ paused: false });
+    schedule();
+  };
+
+  return {
+    subscribe: listener => {
+      listeners.add(listener);
+      schedule();
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) stop();
+      };
+    },
+    onStatusChange: listener => {
+      statusListeners.add(listener);
+      return () => statusListeners.delete(listener);
+    },
+    getStatus: () => status,
+    pause,
+    resume,
+    setSpeed: speed => setStatus({ speed }),
+    isActive: () => listeners.size > 0,
+  };
+};
@@ -0,0 +1,84 @@
+// Crash diagnostics. A small ring buffer keeps the most recent game events so
+// a bug report can show what the player did just before something broke.
+
+import type { SimulationState } from "./engine";
+
+export interface DiagnosticEvent {
+  /** Epoch milliseconds. */
+  at: number;
+  type: string;
+  detail?: unknown;
+}
+
+export interface EventLog {
+  record: (type: string, detail?: unknown) => void;
+  /** Recorded events, oldest first. */
+  entries: () => DiagnosticEvent[];
+  clear: () => void;
+}
+
+export const createEventLog = (capacity = 100, now: () => number = Date.now): EventLog => {
+  const buffer: DiagnosticEvent[] = [];
+  let start = 0;
+
+  return {
+    record: (type, detail) => {
+      const event = detail === undefined ? { at: now(), type } : { at: now(), type, detail };
+      if (buffer.length < capacity) {
+        buffer.push(event);
+      } else {
+        buffer[start] = event;
+        start = (start + 1) % capacity;
+      }
+    },
+    entries: () => [...buffer.slice(start), ...buffer.slice(0, start)],
+    clear: () => {
+      buffer.length = 0;
+      start = 0;
+    },
+  };
+};
+
+/** Events of the running game, shared by the simulator and its error boundary. */
+export const gameEvents = createEventLog();
+
+export interface DiagnosticReport {
+  generatedAt: string;
+  location: string;
+  userAgent: string;
+  error: { name: string; message: string; stack?: string; componentStack?: string } | null;
+  seed: number | null;
+  /** Last run state known to be good, i.e. the most recent save. */
+  snapshot: SimulationState | null;
+  events: DiagnosticEvent[];
+}
+
+interface ReportInput {
+  error?: Error | null;
+  componentStack?: string | null;
+  snapshot: SimulationState | null;
+  events: DiagnosticEvent[];
+  location?: string;
+  userAgent?: string;
+  now?: Date;
+}
+
+export const buildDiagnosticReport = ({
+  error,
+  componentStack,
+  snapshot,
+  events,
+  location = "",
+  userAgent = "",
+  now = new Date(),
+}: ReportInput): DiagnosticReport => ({
+  generatedAt: now.toISOString(),
+  location,
+  userAgent,
+  error: error
+    ? { name: error.name, message: error.message, stack: error.stack, componentStack: componentStack ?? undefined }
+    : null,
+  seed: snapshot?.seed ?? null,
+  snapshot,
+  events,
+});
@@ -0,0 +1,505 @@
+// Headless pyrolysis simulation engine. Everything in here is pure and free of
+// React so it can be unit-tested and reused outside the simulator component.
+
+import { getChlorineReport, getPenaltyTotal, type ChlorineReport } from "./chlorine";
+import {
+  MAX_MOISTURE,
+  MAX_PARTICLE_SIZE,
+  MIN_PARTICLE_SIZE,
+  getFeedstock,
+  getMixTotal,
+  getPlasticShare,
+  isMixComplete,
+  mixFromPlasticRatio,
+  type FeedMix,
+} from "./feedstocks";
+import { getEvaporatedShare, getHeatingRate, getMixMoisture } from "./heatup";
+import { getKineticYields } from "./kinetics";
+import { PRODUCTS, PRODUCT_TYPES, createProductRecord, type ProductType } from "./products";
+import { createStream, generateSeed, randomAt } from "./random";
+import { DEFAULT_SCENARIO, type Scenario } from "./scenario";
+
+export { PRODUCT_TYPES, type ProductType } from "./products";
+
+export type StageId = "landing" | "feedstock" | "heating" | "sorting" | "cooling" | "results";
+
+// Parameters of the standard mission; a run reads its own from `state.scenario`.
+export const GRID_SIZE = DEFAULT_SCENARIO.stages.heating.gridSize;
+export const HEAT_THRESHOLD = DEFAULT_SCENARIO.stages.heating.threshold;
+export const PRODUCT_COUNT = DEFAULT_SCENARIO.stages.sorting.productCount;
+export const SPAWN_INTERVAL = DEFAULT_SCENARIO.stages.sorting.spawnInterval;
+export const COOLING_DURATION = DEFAULT_SCENARIO.stages.cooling.duration;
+export const INITIAL_GAS_TEMP = DEFAULT_SCENARIO.stages.cooling.initialGasTemp;
+export const OPTIMAL_GAS_TEMP = DEFAULT_SCENARIO.stages.cooling.optimalGasTemp;
+
+/** Heat a pass over a cell adds to dry, finely ground feed. */
+export const HEAT_PER_PASS = 50;
+
+/** Product the feed's water condenses into. */
+export const WATER_PRODUCT: ProductType = "aqueous";
+
+/** Fixed simulation timestep in seconds. */
+export const COOLING_TICK = 0.1;
+
+export interface SpawnedProduct {
+  id: number;
+  type: ProductType;
+  x: number;
+  spawnTime: number;
+}
+
+export interface SortingState {
+  progress: Record<ProductType, number>;
+  losses: number;
+  queue: ProductType[];
+  spawned: SpawnedProduct[];
+  totalSpawned: number;
+  /** Seconds the conveyor has been running; drives the spawn schedule. */
+  elapsed: number;
+}
+
+export interface CoolingState {
+  power: number;
+  gasTemp: number;
+  time: number;
+  started: boolean;
+  condensedFuel: number;
+}
+
+export interface SimulationState {
+  seed: number;
+  /** Parameters and targets the run is played under. */
+  scenario: Scenario;
+  /** A core `StageId`, or the id of a plugin stage. */
+  stage: string;
+  /** Feedstock composition loaded in the feedstock stage. */
+  feed: FeedMix;
+  /** Share of the feed in the plastic family, derived from `feed`. */
+  plasticRatio: number;
+  heatGrid: number[][];
+  /** Whether the feed is held to strip HCl before it cracks. */
+  dechlorination: boolean;
+  sorting: SortingState;
+  cooling: CoolingState;
+  /** State slices of plugin stages, keyed by plugin id. */
+  plugins: Record<string, unknown>;
+  /** Snapshots taken on first entry to each stage, in the order they were reached. */
+  checkpoints: Checkpoint[];
+}
+
+export type StageSnapshot = Omit<SimulationState, "checkpoints">;
+
+export interface Checkpoint {
+  stage: string;
+  snapshot: StageSnapshot;
+}
+
+/** Player controls applied during a simulation step. */
+export interface StepInput {
+  coolingPower: number;
+}
+
+export interface HeatMetrics {
+  averageHeat: number;
+  uniformity: number;
+  completeness: number;
+}
+
+/** Where feed mass goes without ending up in a product bin. */
+export const LOSS_STREAMS = ["unconverted", "uncondensed", "sorting", "stages"] as const;
+
+export type LossStream = (typeof LOSS_STREAMS)[number];
+
+/**
+ * Destination of every bit of the feed, as percentages of its mass: the
+ * recovered products plus the loss streams always add up to 100.
+ */
+export interface MassBalance {
+  /** Recovered mass of every product; the same as the results' yields. */
+  products: Record<ProductType, number>;
+  losses: Record<LossStream, number>;
+}
+
+export interface SimulationResults {
+  /** Yield of every product, as a percentage of the feedstock mass. */
+  yields: Record<ProductType, number>;
+  balance: MassBalance;
+  /** Market value of the recovered products less the chlorine penalties, in USD per tonne of feedstock. */
+  productValue: number;
+  chlorine: ChlorineReport;
+  sortingRecovery: number;
+  condensationQuality: number;
+  overallEfficiency: number;
+  carbonReduction: number;
+  processLoss: number;
+  heatMetrics: HeatMetrics;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const createHeatGrid = (size: number = GRID_SIZE): number[][] =>
+  Array.from({ length: size }, () => Array(size).fill(0));
+
+const feedFields = (feed: FeedMix) => ({ feed, plasticRatio: getPlasticShare(feed) });
+
+export const createInitialState = (
+  seed: number = generateSeed(),
+  scenario: Scenario = DEFAULT_SCENARIO,
+): SimulationState => ({
+  seed,
+  scenario,
+  stage: "landing",
+  ...feedFields(scenario.stages.feedstock.mix ?? mixFromPlasticRatio(scenario.stages.feedstock.plasticRatio)),
+  heatGrid: createHeatGrid(scenario.stages.heating.gridSize),
+  dechlorination: false,
+  sorting: {
+    progress: createProductRecord(),
+    losses: 0,
+    queue: [],
+    spawned: [],
+    totalSpawned: 0,
+    elapsed: 0,
+  },
+  cooling: {
+    power: 50,
+    gasTemp: scenario.stages.cooling.initialGasTemp,
+    time: 0,
+    started: false,
+    condensedFuel: 0,
+  },
+  plugins: {},
+  checkpoints: [],
+});
+
+export const getBiomassRatio = (state: SimulationState) => 100 - state.plasticRatio;
+
+/** Ideal product split for the standard plastic/biomass pair; the fractions sum to 1. */
+export const getBaseYields = (plasticRatio: number, scenario: Scenario = DEFAULT_SCENARIO): Record<ProductType, number> => {
+  const pFrac = plasticRatio / 100;
+  const bFrac = 1 - pFrac;
+  const { plastic, biomass } = scenario.feedstocks;
+  const yields = createProductRecord();
+  for (const id of PRODUCT_TYPES) {
+    yields[id] = pFrac * plastic.yields[id] + bFrac * biomass.yields[id];
+  }
+  return yields;
+};
+
+/**
+ * Ash and fixed carbon of a mix on a dry basis, as fractions. Components are
+ * weighted by share, as the scenario's yields are, so moisture does not shift them.
+ */
+const getDrySolids = (mix: FeedMix) => {
+  const total = getMixTotal(mix);
+  const solids = { ash: 0, fixedCarbon: 0 };
+  if (total <= 0) return solids;
+  for (const { id, share } of mix) {
+    const { moisture, ash, fixedCarbon } = getFeedstock(id).proximate;
+    solids.ash += (share / total) * (ash / (100 - moisture));
+    solids.fixedCarbon += (share / total) * (fixedCarbon / (100 - moisture));
+  }
+  return solids;
+};
+
+/**
+ * Ideal product split for the feed itself; the fractions sum to 1. The
+ * scenario's yields stand for the standard plastic/biomass pair: ash and fixed
+ * carbon beyond (or short of) the pair's move the ash and biochar yields, and
+ * the other products make up the difference in their own proportions.
+ */
+export const getFeedYields = (feed: FeedMix, scenario: Scenario = DEFAULT_SCENARIO): Record<ProductType, number> => {
+  const plasticShare = getPlasticShare(feed);
+  const yields = getBaseYields(plasticShare, scenario);
+  const actual = getDrySolids(feed);
+  const reference = getDrySolids(mixFromPlasticRatio(plasticShare));
+  const ash = Math.max(0, yields.ash + actual.ash - reference.ash);
+  const biochar = Math.max(0, yields.biochar + actual.fixedCarbon - reference.fixedCarbon);
+  const rest = 1 - yields.ash - yields.biochar;
+  const scale = rest > 0 ? Math.max(0, 1 - ash - biochar) / rest : 0;
+  for (const id of PRODUCT_TYPES) yields[id] *= scale;
+  return { ...yields, ash, biochar };
+};
+
+export const calculateHeatMetrics = (heatGrid: number[][]): HeatMetrics => {
+  const flatGrid = heatGrid.flat();
+  const cells = flatGrid.length;
+  const totalHeat = flatGrid.reduce((sum, val) => sum + val, 0);
+  const averageHeat = totalHeat / cells;
+  const variance = flatGrid.reduce((sum, val) => sum + Math.pow(val - averageHeat, 2), 0) / cells;
+  const uniformity = Math.max(0, 100 - Math.sqrt(variance));
+  return {
+    averageHeat,
+    uniformity,
+    completeness: Math.min(100, (averageHeat / 80) * 100),
+  };
+};
+
+/** Replaces the feed with the standard plastic/biomass pair at `value` % plastic. */
+export const setPlasticRatio = (state: SimulationState, value: number): SimulationState =>
+  setFeed(state, mixFromPlasticRatio(clamp(Math.round(value) || 0, 0, 100)));
+
+/** Loads a feed composition; shares are clamped to 0–100 but need not add up yet. */
+export const setFeed = (state: SimulationState, mix: FeedMix): SimulationState => ({
+  ...state,
+  ...feedFields(
+    mix.map(({ id, share, moisture, particleSize }) => ({
+      id,
+      share: clamp(share || 0, 0, 100),
+      ...(moisture !== undefined && { moisture: clamp(moisture || 0, 0, MAX_MOISTURE) }),
+      ...(particleSize !== undefined && { particleSize: clamp(particleSize || 0, MIN_PARTICLE_SIZE, MAX_PARTICLE_SIZE) }),
+    })),
+  ),
+});
+
+export const setDechlorination = (state: SimulationState, dechlorination: boolean): SimulationState => ({
+  ...state,
+  dechlorination,
+});
+
+export const setStage = (state: SimulationState, stage: StageId): SimulationState => ({ ...state, stage });
+
+/** Records the state on entry to the current stage, unless that stage already has a checkpoint. */
+export const captureCheckpoint = (state: SimulationState): SimulationState => {
+  if (hasCheckpoint(state, state.stage)) return state;
+  const { checkpoints, ...snapshot } = state;
+  return { ...state, checkpoints: [...checkpoints, { stage: state.stage, snapshot }] };
+};
+
+export const hasCheckpoint = (state: SimulationState, stage: string) =>
+  state.checkpoints.some(checkpoint => checkpoint.stage === stage);
+
+/**
+ * Rewinds the run to the moment `stage` was entered. Checkpoints of the stages
+ * reached after it are dropped, as they are replayed from the restored state.
+ */
+export const restoreCheckpoint = (state: SimulationState, stage: string): SimulationState => {
+  const index = state.checkpoints.findIndex(checkpoint => checkpoint.stage === stage);
+  if (index === -1) return state;
+  return { ...state.checkpoints[index].snapshot, checkpoints: state.checkpoints.slice(0, index + 1) };
+};
+
+export const heatCell = (state: SimulationState, row: number, col: number): SimulationState => {
+  // Cells off the grid, from a hand-edited replay say, are ignored
+  if (state.stage !== "heating" || state.heatGrid[row]?.[col] === undefined) return state;
+  const heatGrid = state.heatGrid.map(r => [...r]);
+  const rate = getHeatingRate(state.feed, state.scenario.stages.heating.peakTemperature);
+  heatGrid[row][col] = Math.min(100, heatGrid[row][col] + HEAT_PER_PASS * rate);
+  return { ...state, heatGrid };
+};
+
+/** Rolls the full product sequence for the sorting stage from the feedstock mix and run seed. */
+export const generateProductQueue = (state: SimulationState): SimulationState => {
+  const base = getFeedYields(state.feed, state.scenario);
+  const random = createStream(state.seed, "products");
+  const queue: ProductType[] = [];
+  for (let i = 0; i < state.scenario.stages.sorting.productCount; i++) {
+    const roll = random();
+    let type = PRODUCT_TYPES[PRODUCT_TYPES.length - 1];
+    let cumulative = 0;
+    for (const id of PRODUCT_TYPES) {
+      cumulative += base[id];
+      if (roll < cumulative) {
+        type = id;
+        break;
+      }
+    }
+    queue.push(type);
+  }
+  return { ...state, sorting: { ...state.sorting, queue } };
+};
+
+/** Releases the next queued product onto the conveyor at a seeded horizontal position. */
+export const spawnProduct = (state: SimulationState, spawnTime: number): SimulationState => {
+  const { sorting } = state;
+  if (sorting.totalSpawned >= sorting.queue.length) return state;
+  const id = sorting.totalSpawned;
+  const product: SpawnedProduct = {
+    id,
+    type: sorting.queue[id],
+    x: 10 + randomAt(state.seed, "spawn", id) * 75,
+    spawnTime,
+  };
+  return {
+    ...state,
+    sorting: { ...sorting, spawned: [...sorting.spawned, product], totalSpawned: sorting.totalSpawned + 1 },
+  };
+};
+
+/** Sorts a spawned product into `bin`; a mismatched bin counts as a loss. */
+export const dropProduct = (state: SimulationState, bin: ProductType, productId: number): SimulationState => {
+  const { sorting } = state;
+  const product = sorting.spawned.find(p => p.id === productId);
+  if (!product) return state;
+  const spawned = sorting.spawned.filter(p => p.id !== productId);
+  if (product.type === bin) {
+    return { ...state, sorting: { ...sorting, spawned, progress: { ...sorting.progress, [bin]: sorting.progress[bin] + 1 } } };
+  }
+  return { ...state, sorting: { ...sorting, spawned, losses: sorting.losses + 1 } };
+};
+
+/** The feed can go into the reactor once its shares add up to 100 %. */
+export const isFeedComplete = (state: SimulationState) => state.feed.length > 0 && isMixComplete(state.feed);
+
+export const isHeatingComplete = (state: SimulationState) =>
+  calculateHeatMetrics(state.heatGrid).completeness >= state.scenario.stages.heating.threshold;
+
+/** Prepares the sorting conveyor; the queue is only rolled once per run. */
+export const prepareSorting = (state: SimulationState): SimulationState =>
+  state.sorting.queue.length > 0 ? state : generateProductQueue(state);
+
+/** Whether the conveyor still has products to release. */
+export const isSortingRunning = (state: SimulationState) =>
+  state.sorting.queue.length > 0 && state.sorting.totalSpawned < state.sorting.queue.length;
+
+export const getTotalSorted = (sorting: SortingState) =>
+  PRODUCT_TYPES.reduce((sum, id) => sum + sorting.progress[id], 0);
+
+export const isSortingComplete = (state: SimulationState) => {
+  const { productCount } = state.scenario.stages.sorting;
+  return state.sorting.totalSpawned >= productCount && getTotalSorted(state.sorting) + state.sorting.losses >= productCount;
+};
+
+export const setCoolingPower = (state: SimulationState, power: number): SimulationState => ({
+  ...state,
+  cooling: { ...state.cooling, power: clamp(power, 0, 100) },
+});
+
+export const startCooling = (state: SimulationState): SimulationState => ({
+  ...state,
+  cooling: { ...state.cooling, started: true },
+});
+
+export const isCoolingComplete = (state: SimulationState) => state.cooling.time >= state.scenario.stages.cooling.duration;
+
+export const isCoolingRunning = (state: SimulationState) => state.cooling.started && !isCoolingComplete(state);
+
+/** Fraction (0..1) of vapour that condenses at the given gas temperature; peaks at 350 °C. */
+export const getCondensationRate = (gasTemp: number) => Math.max(0, 1 - Math.abs(gasTemp - 350) / 300);
+
+// Float tolerance for schedules built from repeated fixed-size ticks.
+const TIME_EPSILON = 1e-9;
+
+const stepSorting = (state: SimulationState, dt: number): SimulationState => {
+  const { sorting } = state;
+  if (sorting.queue.length === 0 || sorting.totalSpawned >= sorting.queue.length) return state;
+
+  const { spawnInterval } = state.scenario.stages.sorting;
+  const elapsed = sorting.elapsed + dt;
+  let next: SimulationState = { ...state, sorting: { ...sorting, elapsed } };
+  while (
+    next.sorting.totalSpawned < next.sorting.queue.length &&
+    elapsed + TIME_EPSILON >= (next.sorting.totalSpawned + 1) * spawnInterval
+  ) {
+    next = spawnProduct(next, (next.sorting.totalSpawned + 1) * spawnInterval);
+  }
+  return next;
+};
+
+/** Product split the reactor reaches at the run's heat, for the dry part of the feed. */
+const getReactorOutput = (state: SimulationState) =>
+  getKineticYields(state.heatGrid, state.plasticRatio, getFeedYields(state.feed, state.scenario), state.scenario);
+
+const stepCooling = (state: SimulationState, input: StepInput, dt: number): SimulationState => {
+  const { cooling } = state;
+  const { duration } = state.scenario.stages.cooling;
+  if (!cooling.started || cooling.time >= duration) return state;
+
+  const ticks = dt / COOLING_TICK;
+  const heatLoss = input.coolingPower * 1.5;
+  const naturalHeat = 2;
+  const gasTemp = clamp(cooling.gasTemp + (naturalHeat - heatLoss) * ticks, 100, 900);
+
+  // Only the oil vapour the reactor actually made can condense, so an underheated run condenses less
+  const baseLiquid = getReactorOutput(state).products.liquidFuel * (1 - getMixMoisture(state.feed));
+  const condensationEfficiency = Math.max(0, 1 - Math.abs(cooling.gasTemp - 350) / 400);
+  const fuelIncrement = baseLiquid * condensationEfficiency * 0.8 * ticks;
+
+  return {
+    ...state,
+    cooling: {
+      ...cooling,
+      power: input.coolingPower,
+      gasTemp,
+      time: cooling.time + dt + TIME_EPSILON >= duration ? duration : cooling.time + dt,
+      condensedFuel: Math.min(cooling.condensedFuel + fuelIncrement, baseLiquid * 100),
+    },
+  };
+};
+
+/**
+ * Advances the simulation by `dt` seconds. Sorting releases a queued product
+ * every spawn interval of the scenario; cooling sheds gas heat in proportion to the cooling
+ * power while condensing liquid fuel at a rate set by the previous tick's
+ * temperature. Other stages are not time driven.
+ */
+export const step = (state: SimulationState, input: StepInput, dt: number): SimulationState => {
+  if (state.stage === "sorting") return stepSorting(state, dt);
+  if (state.stage === "cooling") return stepCooling(state, input, dt);
+  return state;
+};
+
+const createLossRecord = (): Record<LossStream, number> =>
+  Object.fromEntries(LOSS_STREAMS.map(stream => [stream, 0])) as Record<LossStream, number>;
+
+/** Total of a mass balance; 100 (the feed) up to rounding. */
+export const getBalanceTotal = ({ products, losses }: MassBalance) =>
+  PRODUCT_TYPES.reduce((sum, id) => sum + products[id], 0) + LOSS_STREAMS.reduce((sum, stream) => sum + losses[stream], 0);
+
+/** Market value of the yields (% of feed), USD per tonne of feed, before any penalties. */
+export const getProductRevenue = (yields: Record<ProductType, number>) =>
+  PRODUCTS.reduce((sum, product) => sum + (yields[product.id] / 100) * product.value, 0);
+
+/** Final yields and scores for a run, as percentages. */
+export const computeResults = (state: SimulationState): SimulationResults => {
+  const heatMetrics = calculateHeatMetrics(state.heatGrid);
+  const reactor = getReactorOutput(state);
+
+  const tempDiff = Math.abs(state.cooling.gasTemp - state.scenario.stages.cooling.optimalGasTemp);
+  const coolingEfficiency = Math.max(0.3, 1 - tempDiff / 500);
+
+  const { losses } = state.sorting;
+  const totalSorted = getTotalSorted(state.sorting);
+  const sortingAccuracy = totalSorted > 0 ? totalSorted / (totalSorted + losses) : 0;
+  // Share of the products sent to the wrong bin; none when nothing reached the sorting line
+  const missortedShare = totalSorted + losses > 0 ? losses / (totalSorted + losses) : 0;
+
+  // The scenario's yields are for dry feed; the feed's water boils off as steam
+  // wherever the reactor got hot enough and condenses with the other vapour
+  const moisture = getMixMoisture(state.feed);
+  const steam = moisture * getEvaporatedShare(state.heatGrid, state.scenario) * 100;
+
+  // Follow the feed through the process: the reactor kinetics set how much of
+  // the feed converts and into what, vapour that misses the condensation window leaves with the off-gas,
+  // and missorted products end up as reject
+  const yields = createProductRecord();
+  const balanceLosses = createLossRecord();
+  let converted = 0;
+  for (const product of PRODUCTS) {
+    const produced = reactor.products[product.id] * (1 - moisture) * 100 + (product.id === WATER_PRODUCT ? steam : 0);
+    const captured = produced * (product.phase === "vapour" ? coolingEfficiency : 1);
+    yields[product.id] = captured * (1 - missortedShare);
+    converted += produced;
+    balanceLosses.uncondensed += produced - captured;
+    balanceLosses.sorting += captured - yields[product.id];
+  }
+  balanceLosses.unconverted = 100 - converted;
+
+  const totalYield = PRODUCT_TYPES.reduce((sum, id) => sum + yields[id], 0);
+  const chlorine = getChlorineReport(state, yields.liquidFuel);
+  const productValue = getProductRevenue(yields) - getPenaltyTotal(chlorine);
+  const condensationQuality = coolingEfficiency * 100;
+  const sortingRecovery = sortingAccuracy * 100;
+
+  return {
+    yields,
+    balance: { products: { ...yields }, losses: balanceLosses },
+    productValue,
+    chlorine,
+    sortingRecovery,
+    condensationQuality,
+    overallEfficiency: (totalYield / 3 + sortingRecovery + condensationQuality) / 3,
+    carbonReduction: (state.plasticRatio * 0.8 + (100 - state.plasticRatio) * 1.2) / 100,
+    processLoss: (losses / state.scenario.stages.sorting.productCount) * 100,
+    heatMetrics,
+  };
+};
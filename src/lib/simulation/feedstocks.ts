@@ -0,0 +1,257 @@
+// Feedstock catalog. Every waste stream a player can load into the reactor is
+// described here with its proximate analysis (as received) and ultimate
+// analysis (dry, ash-free). A run's feed is a mix of any number of them; the
+// process model follows the mix's plastic and biomass families, with its
+// blended ash and fixed carbon setting the solid yields.
+
+export type FeedstockFamily = "plastic" | "biomass";
+
+/** Mass percentages as received; they add up to 100. */
+export interface ProximateAnalysis {
+  moisture: number;
+  volatileMatter: number;
+  fixedCarbon: number;
+  ash: number;
+}
+
+/** Elemental mass percentages on a dry, ash-free basis; they add up to 100. */
+export interface UltimateAnalysis {
+  C: number;
+  H: number;
+  O: number;
+  N: number;
+  S: number;
+  Cl: number;
+}
+
+export interface FeedstockDefinition {
+  id: string;
+  label: string;
+  /** Which of the scenario's yield sets and reaction schemes the feedstock follows. */
+  family: FeedstockFamily;
+  /** Display colour as a CSS colour. */
+  color: string;
+  /** Typical particle size as delivered, in mm. */
+  particleSize: number;
+  proximate: ProximateAnalysis;
+  ultimate: UltimateAnalysis;
+}
+
+// Typical values from the waste-pyrolysis literature; real lots vary.
+export const FEEDSTOCKS = [
+  {
+    id: "pe",
+    label: "Polyethylene (PE)",
+    family: "plastic",
+    color: "#60a5fa",
+    particleSize: 5,
+    proximate: { moisture: 0.1, volatileMatter: 99.5, fixedCarbon: 0.1, ash: 0.3 },
+    ultimate: { C: 85.7, H: 14.2, O: 0.05, N: 0.05, S: 0, Cl: 0 },
+  },
+  {
+    id: "pp",
+    label: "Polypropylene (PP)",
+    family: "plastic",
+    color: "#818cf8",
+    particleSize: 5,
+    proximate: { moisture: 0.2, volatileMatter: 98.9, fixedCarbon: 0.3, ash: 0.6 },
+    ultimate: { C: 85.5, H: 14.3, O: 0.1, N: 0.1, S: 0, Cl: 0 },
+  },
+  {
+    id: "ps",
+    label: "Polystyrene (PS)",
+    family: "plastic",
+    color: "#a78bfa",
+    particleSize: 5,
+    proximate: { moisture: 0.3, volatileMatter: 98.7, fixedCarbon: 0.8, ash: 0.2 },
+    ultimate: { C: 92.2, H: 7.7, O: 0.05, N: 0.05, S: 0, Cl: 0 },
+  },
+  {
+    id: "pet",
+    label: "Polyethylene terephthalate (PET)",
+    family: "plastic",
+    color: "#22d3ee",
+    particleSize: 8,
+    proximate: { moisture: 0.5, volatileMatter: 87, fixedCarbon: 12.4, ash: 0.1 },
+    ultimate: { C: 62.5, H: 4.2, O: 33.2, N: 0.1, S: 0, Cl: 0 },
+  },
+  {
+    id: "pvc",
+    label: "Polyvinyl chloride (PVC)",
+    family: "plastic",
+    color: "#f472b6",
+    particleSize: 5,
+    proximate: { moisture: 0.2, volatileMatter: 94.8, fixedCarbon: 4.8, ash: 0.2 },
+    ultimate: { C: 38.4, H: 4.8, O: 0.1, N: 0, S: 0, Cl: 56.7 },
+  },
+  {
+    id: "tyres",
+    label: "Scrap tyres",
+    family: "plastic",
+    color: "#64748b",
+    particleSize: 20,
+    proximate: { moisture: 1, volatileMatter: 61.9, fixedCarbon: 29.2, ash: 7.9 },
+    ultimate: { C: 88, H: 7.5, O: 2.2, N: 0.4, S: 1.8, Cl: 0.1 },
+  },
+  {
+    id: "wood-chips",
+    label: "Wood chips",
+    family: "biomass",
+    color: "#34d399",
+    particleSize: 25,
+    proximate: { moisture: 25, volatileMatter: 60.5, fixedCarbon: 13.8, ash: 0.7 },
+    ultimate: { C: 50.6, H: 6.1, O: 43.05, N: 0.2, S: 0.05, Cl: 0 },
+  },
+  {
+    id: "rice-husk",
+    label: "Rice husk",
+    family: "biomass",
+    color: "#fbbf24",
+    particleSize: 3,
+    proximate: { moisture: 10, volatileMatter: 56, fixedCarbon: 15, ash: 19 },
+    ultimate: { C: 49.3, H: 6.1, O: 43.6, N: 0.6, S: 0.1, Cl: 0.3 },
+  },
+  {
+    id: "food-waste",
+    label: "Food waste",
+    family: "biomass",
+    color: "#fb923c",
+    particleSize: 15,
+    proximate: { moisture: 70, volatileMatter: 24, fixedCarbon: 3.5, ash: 2.5 },
+    ultimate: { C: 49, H: 7, O: 39.7, N: 3.8, S: 0.3, Cl: 0.2 },
+  },
+  {
+    id: "paper",
+    label: "Paper and cardboard",
+    family: "biomass",
+    color: "#d6d3d1",
+    particleSize: 10,
+    proximate: { moisture: 8, volatileMatter: 75, fixedCarbon: 9, ash: 8 },
+    ultimate: { C: 48.5, H: 6.6, O: 44.6, N: 0.2, S: 0.1, Cl: 0 },
+  },
+] as const satisfies readonly FeedstockDefinition[];
+
+export type FeedstockId = (typeof FEEDSTOCKS)[number]["id"];
+
+export const FEEDSTOCK_IDS: FeedstockId[] = FEEDSTOCKS.map(feedstock => feedstock.id);
+
+const byId = new Map<string, FeedstockDefinition>(FEEDSTOCKS.map(feedstock => [feedstock.id, feedstock]));
+
+export const getFeedstock = (id: FeedstockId): FeedstockDefinition => byId.get(id)!;
+
+export const isFeedstockId = (value: unknown): value is FeedstockId => typeof value === "string" && byId.has(value);
+
+export interface FeedComponent {
+  id: FeedstockId;
+  /** Percentage of the feed mass. */
+  share: number;
+  /** As-received moisture (%); the catalog's typical value when omitted. */
+  moisture?: number;
+  /** Particle size in mm; the catalog's typical value when omitted. */
+  particleSize?: number;
+}
+
+/** Limits of the moisture (%) and particle size (mm) a component can be given. */
+export const MAX_MOISTURE = 90;
+export const MIN_PARTICLE_SIZE = 0.5;
+export const MAX_PARTICLE_SIZE = 100;
+
+/** A feed composition; complete when the shares add up to 100. */
+export type FeedMix = FeedComponent[];
+
+/** Feedstocks a plain plastic/biomass split stands for. */
+export const DEFAULT_PLASTIC: FeedstockId = "pe";
+export const DEFAULT_BIOMASS: FeedstockId = "wood-chips";
+
+// Shares are entered to one decimal; anything closer than this to 100 is complete.
+const MIX_TOLERANCE = 0.05;
+
+export const getMixTotal = (mix: FeedMix) => mix.reduce((sum, component) => sum + component.share, 0);
+
+export const isMixComplete = (mix: FeedMix) => Math.abs(getMixTotal(mix) - 100) <= MIX_TOLERANCE;
+
+// The plain split predates moisture and particle size and stood for a dry,
+// finely ground feed; it keeps doing so, so the standard mission plays as before
+const STANDARD_CONDITION = { moisture: 0, particleSize: 5 };
+
+/** The two-way split of older runs and the `plasticRatio` shortcut, as a mix. */
+export const mixFromPlasticRatio = (plasticRatio: number): FeedMix => [
+  { id: DEFAULT_PLASTIC, share: plasticRatio, ...STANDARD_CONDITION },
+  { id: DEFAULT_BIOMASS, share: 100 - plasticRatio, ...STANDARD_CONDITION },
+];
+
+/** Percentage of the mix in the plastic family, relative to the mix's own total. */
+export const getPlasticShare = (mix: FeedMix) => {
+  const total = getMixTotal(mix);
+  if (total <= 0) return 0;
+  const plastic = mix.reduce((sum, { id, share }) => sum + (getFeedstock(id).family === "plastic" ? share : 0), 0);
+  return (plastic / total) * 100;
+};
+
+/** Scales the shares to add up to 100, keeping one decimal and their proportions. */
+export const normalizeMix = (mix: FeedMix): FeedMix => {
+  const total = getMixTotal(mix);
+  if (total <= 0) return mix;
+  const scaled = mix.map(component => ({ ...component, share: Math.round((component.share / total) * 1000) / 10 }));
+  // Rounding leftovers go to the largest share
+  const remainder = Math.round((100 - getMixTotal(scaled)) * 10) / 10;
+  const largest = scaled.reduce((best, component, index) => (component.share > scaled[best].share ? index : best), 0);
+  scaled[largest] = { ...scaled[largest], share: Math.round((scaled[largest].share + remainder) * 10) / 10 };
+  return scaled;
+};
+
+export const getComponentMoisture = ({ id, moisture }: FeedComponent) => moisture ?? getFeedstock(id).proximate.moisture;
+
+export const getComponentParticleSize = ({ id, particleSize }: FeedComponent) =>
+  particleSize ?? getFeedstock(id).particleSize;
+
+/** Proximate analysis at the component's own moisture; the dry matter keeps its catalog make-up. */
+export const getComponentProximate = (component: FeedComponent): ProximateAnalysis => {
+  const { proximate } = getFeedstock(component.id);
+  const moisture = getComponentMoisture(component);
+  const dryScale = (100 - moisture) / (100 - proximate.moisture);
+  return {
+    moisture,
+    volatileMatter: proximate.volatileMatter * dryScale,
+    fixedCarbon: proximate.fixedCarbon * dryScale,
+    ash: proximate.ash * dryScale,
+  };
+};
+
+/** Mass-weighted mean particle size of the mix, in mm. */
+export const getMixParticleSize = (mix: FeedMix) => {
+  const total = getMixTotal(mix);
+  if (total <= 0) return 0;
+  return mix.reduce((sum, component) => sum + getComponentParticleSize(component) * component.share, 0) / total;
+};
+
+export interface FeedAnalysis {
+  proximate: ProximateAnalysis;
+  ultimate: UltimateAnalysis;
+}
+
+const PROXIMATE_KEYS = ["moisture", "volatileMatter", "fixedCarbon", "ash"] as const;
+const ULTIMATE_KEYS = ["C", "H", "O", "N", "S", "Cl"] as const;
+
+/**
+ * Analyses of the blended feed. Proximate values blend by mass share; the
+ * dry, ash-free ultimate values blend by each component's dry, ash-free mass.
+ */
+export const analyzeMix = (mix: FeedMix): FeedAnalysis => {
+  const total = getMixTotal(mix);
+  const proximate = Object.fromEntries(PROXIMATE_KEYS.map(key => [key, 0])) as unknown as ProximateAnalysis;
+  const ultimate = Object.fromEntries(ULTIMATE_KEYS.map(key => [key, 0])) as unknown as UltimateAnalysis;
+  if (total <= 0) return { proximate, ultimate };
+
+  let organicMass = 0;
+  for (const component of mix) {
+    const analysis = getComponentProximate(component);
+    const weight = component.share / total;
+    for (const key of PROXIMATE_KEYS) proximate[key] += analysis[key] * weight;
+    const organic = weight * (100 - analysis.moisture - analysis.ash);
+    organicMass += organic;
+    for (const key of ULTIMATE_KEYS) ultimate[key] += getFeedstock(component.id).ultimate[key] * organic;
+  }
+  if (organicMass > 0) for (const key of ULTIMATE_KEYS) ultimate[key] /= organicMass;
+  return { proximate, ultimate };
+};
@@ -0,0 +1,189 @@
+// Named simulation states for every stage, including its edge cases. They
+// back the stage gallery at `/dev/stages` and component tests, so a screen can
+// be looked at (or asserted on) without playing up to it.
+
+import { playCooling, playSorting } from "./batch";
+import {
+  COOLING_TICK,
+  createInitialState,
+  prepareSorting,
+  setDechlorination,
+  setFeed,
+  setPlasticRatio,
+  setStage,
+  step,
+  type SimulationState,
+  type StageId,
+} from "./engine";
+import { STAGE_FIXTURES } from "./debug";
+import { DEFAULT_SCENARIO } from "./scenario";
+
+export interface StateFixture {
+  id: string;
+  /** Stage the fixture is shown on. */
+  stage: string;
+  title: string;
+  create: () => SimulationState;
+}
+
+const FIXTURE_SEED = 42;
+
+const fresh = () => createInitialState(FIXTURE_SEED);
+
+const withHeat = (state: SimulationState, heatAt: (row: number, col: number, size: number) => number): SimulationState => ({
+  ...state,
+  heatGrid: state.heatGrid.map((cells, row) => cells.map((_, col) => heatAt(row, col, cells.length))),
+});
+
+const heated = () => STAGE_FIXTURES.heating(fresh());
+
+/** Mixed plastics with a little PVC left in after sorting. */
+const withPvc = (state: SimulationState) =>
+  setFeed(state, [
+    { id: "pe", share: 60 },
+    { id: "pp", share: 25 },
+    { id: "pvc", share: 3 },
+    { id: "paper", share: 12 },
+  ]);
+
+const sorted = (losses = 0) => playSorting(heated(), losses);
+
+const cooled = () => playCooling(sorted(), 50);
+
+const coolingAt = (state: SimulationState, cooling: Partial<SimulationState["cooling"]>): SimulationState => ({
+  ...state,
+  cooling: { ...state.cooling, ...cooling },
+});
+
+const runFor = (state: SimulationState, seconds: number) => {
+  let next = state;
+  for (let i = Math.round(seconds / COOLING_TICK); i > 0; i--) next = step(next, { coolingPower: 0 }, COOLING_TICK);
+  return next;
+};
+
+const onTarget = (state: SimulationState) =>
+  coolingAt(state, { gasTemp: state.scenario.stages.cooling.optimalGasTemp });
+
+const on = (stage: StageId, state: SimulationState) => setStage(state, stage);
+
+export const STATE_FIXTURES: StateFixture[] = [
+  { id: "landing-fresh", stage: "landing", title: "Fresh run", create: () => fresh() },
+  {
+    id: "feedstock-plastic",
+    stage: "feedstock",
+    title: "All plastic",
+    create: () => on("feedstock", setPlasticRatio(fresh(), 100)),
+  },
+  {
+    id: "feedstock-biomass",
+    stage: "feedstock",
+    title: "All biomass",
+    create: () => on("feedstock", setPlasticRatio(fresh(), 0)),
+  },
+  {
+    id: "feedstock-municipal",
+    stage: "feedstock",
+    title: "Municipal mix of five feedstocks",
+    create: () =>
+      on(
+        "feedstock",
+        setFeed(fresh(), [
+          { id: "pe", share: 30 },
+          { id: "pp", share: 15 },
+          { id: "pet", share: 10 },
+          { id: "paper", share: 25 },
+          { id: "food-waste", share: 20 },
+        ]),
+      ),
+  },
+  {
+    id: "feedstock-wet",
+    stage: "feedstock",
+    title: "Wet, coarse feed",
+    create: () =>
+      on(
+        "feedstock",
+        setFeed(fresh(), [
+          { id: "food-waste", share: 50 },
+          { id: "wood-chips", share: 30, moisture: 45, particleSize: 60 },
+          { id: "tyres", share: 20 },
+        ]),
+      ),
+  },
+  {
+    id: "feedstock-incomplete",
+    stage: "feedstock",
+    title: "Mix adding up to 85%",
+    create: () =>
+      on(
+        "feedstock",
+        setFeed(fresh(), [
+          { id: "tyres", share: 60 },
+          { id: "rice-husk", share: 25 },
+        ]),
+      ),
+  },
+  { id: "heating-cold", stage: "heating", title: "Cold reactor", create: () => on("heating", fresh()) },
+  {
+    id: "heating-uneven",
+    stage: "heating",
+    title: "Heating 65% uneven",
+    create: () => on("heating", withHeat(fresh(), (_, col, size) => (col < size / 2 ? 100 : 4))),
+  },
+  { id: "heating-complete", stage: "heating", title: "Fully heated", create: () => on("heating", heated()) },
+  {
+    id: "heating-pvc",
+    stage: "heating",
+    title: "PVC in the feed, dechlorinating",
+    create: () => on("heating", setDechlorination(STAGE_FIXTURES.heating(withPvc(fresh())), true)),
+  },
+  {
+    id: "sorting-belt",
+    stage: "sorting",
+    title: "Products on the belt",
+    create: () => runFor(prepareSorting(on("sorting", heated())), 6),
+  },
+  { id: "sorting-losses", stage: "sorting", title: "Sorting with 3 losses", create: () => sorted(3) },
+  { id: "sorting-perfect", stage: "sorting", title: "Every product sorted", create: () => sorted() },
+  { id: "cooling-ready", stage: "cooling", title: "Ready to cool", create: () => on("cooling", sorted()) },
+  {
+    id: "cooling-overshoot",
+    stage: "cooling",
+    title: "Cooling overshoot at 820 °C",
+    create: () => coolingAt(on("cooling", sorted()), { started: true, time: 6, gasTemp: 820, power: 0 }),
+  },
+  {
+    id: "cooling-complete",
+    stage: "cooling",
+    title: "Cooling finished on target",
+    create: () => onTarget(cooled()),
+  },
+  {
+    id: "results-perfect",
+    stage: "results",
+    title: "Perfect run",
+    create: () => on("results", onTarget(cooled())),
+  },
+  {
+    id: "results-pvc",
+    stage: "results",
+    title: "PVC left in, no dechlorination",
+    create: () => on("results", onTarget(playCooling(playSorting(STAGE_FIXTURES.heating(withPvc(fresh())), 0), 50))),
+  },
+  {
+    id: "results-poor",
+    stage: "results",
+    title: "Uneven heat, losses and overshoot",
+    create: () =>
+      on(
+        "results",
+        coolingAt(playSorting(withHeat(fresh(), (row, col) => ((row + col) % 2 === 0 ? 100 : 20)), 5), {
+          started: true,
+          time: DEFAULT_SCENARIO.stages.cooling.duration,
+          gasTemp: 820,
+        }),
+      ),
+  },
+];
+
+export const getStateFixture = (id: string): StateFixture | undefined => STATE_FIXTURES.find(fixture => fixture.id === id);
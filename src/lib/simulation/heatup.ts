@@ -0,0 +1,69 @@
+// Heat-up of the feed in the reactor. Microwave energy first has to warm the
+// feed, and whatever water it carries must be boiled off and the steam
+// superheated before pyrolysis gets going, so wet feed heats up slowly and
+// sends its water out with the reactor vapour. Coarse particles heat unevenly
+// inside and slow the heat-up further, though volumetric heating softens the
+// effect compared with a conventional kiln.
+
+import { getComponentMoisture, getMixParticleSize, getMixTotal, type FeedMix } from "./feedstocks";
+import { AMBIENT_TEMPERATURE, getCellTemperature } from "./kinetics";
+import type { Scenario } from "./scenario";
+
+/** kJ/(kg·K) */
+const SOLID_HEAT_CAPACITY = 1.5;
+const WATER_HEAT_CAPACITY = 4.18;
+const STEAM_HEAT_CAPACITY = 2.0;
+/** kJ/kg */
+const LATENT_HEAT = 2257;
+const BOILING_POINT = 100;
+/** Particles up to this size (mm) heat through without holding the reactor back. */
+const PARTICLE_REFERENCE = 10;
+
+/** Energy to bring a tonne of feed to the peak reactor temperature, in kWh. */
+export interface HeatDemand {
+  /** Warming the dry matter. */
+  heating: number;
+  /** Warming, boiling off and superheating the water. */
+  drying: number;
+  total: number;
+}
+
+/** Mass-weighted moisture of the mix, 0..1. */
+export const getMixMoisture = (mix: FeedMix) => {
+  const total = getMixTotal(mix);
+  if (total <= 0) return 0;
+  return mix.reduce((sum, component) => sum + getComponentMoisture(component) * component.share, 0) / total / 100;
+};
+
+// kJ/kg is the same as kWh per 3.6 tonnes
+const toKwhPerTonne = (kilojoulesPerKilogram: number) => kilojoulesPerKilogram / 3.6;
+
+const dryDemand = (peakTemperature: number) => SOLID_HEAT_CAPACITY * (peakTemperature - AMBIENT_TEMPERATURE);
+
+export const getHeatDemand = (mix: FeedMix, peakTemperature: number): HeatDemand => {
+  const moisture = getMixMoisture(mix);
+  const water =
+    WATER_HEAT_CAPACITY * (BOILING_POINT - AMBIENT_TEMPERATURE) +
+    LATENT_HEAT +
+    STEAM_HEAT_CAPACITY * Math.max(0, peakTemperature - BOILING_POINT);
+  const heating = toKwhPerTonne((1 - moisture) * dryDemand(peakTemperature));
+  const drying = toKwhPerTonne(moisture * water);
+  return { heating, drying, total: heating + drying };
+};
+
+/** Slow-down of coarse feed, 0..1; 1 for particles up to the reference size. */
+export const getParticleFactor = (particleSize: number) =>
+  particleSize <= PARTICLE_REFERENCE ? 1 : Math.sqrt(PARTICLE_REFERENCE / particleSize);
+
+/** How fast the mix heats up relative to a dry, finely ground feed, 0..1. */
+export const getHeatingRate = (mix: FeedMix, peakTemperature: number) => {
+  const { total } = getHeatDemand(mix, peakTemperature);
+  const moistureFactor = total > 0 ? toKwhPerTonne(dryDemand(peakTemperature)) / total : 1;
+  return moistureFactor * getParticleFactor(getMixParticleSize(mix));
+};
+
+/** Share of the reactor hot enough to boil off the feed's water, 0..1. */
+export const getEvaporatedShare = (heatGrid: number[][], scenario: Scenario) => {
+  const cells = heatGrid.flat();
+  return cells.filter(heat => getCellTemperature(heat, scenario) >= BOILING_POINT).length / cells.length;
+};
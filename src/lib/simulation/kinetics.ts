@@ -0,0 +1,167 @@
+// Reaction kinetics of the reactor. Each cell of the heat grid is a batch of
+// feed held at the cell's temperature for the scenario's residence time. The
+// feed is split into pseudo-components (cellulose, hemicellulose and lignin
+// for biomass; polyolefin for plastic), each decomposing through parallel
+// first-order Arrhenius routes to vapour, gas and char; polyolefin
+// depolymerisation by random scission is lumped into its vapour route. Vapour
+// then cracks further to gas during its short stay in the hot zone.
+//
+// The scenario's yields remain the product split at design conditions (every
+// cell at full heat for the whole residence time). Kinetics decide how much of
+// the feed converts and how the vapour, gas and solid groups shift away from
+// that split; within a group products keep their scenario proportions.
+
+import { PRODUCTS, PRODUCT_PHASES, createProductRecord, type ProductPhase, type ProductType } from "./products";
+import { DEFAULT_SCENARIO, type Scenario } from "./scenario";
+
+const GAS_CONSTANT = 8.314;
+export const AMBIENT_TEMPERATURE = 25;
+/** Seconds vapour spends in the hot zone before it leaves the reactor. */
+const VAPOUR_RESIDENCE = 1;
+
+export interface Arrhenius {
+  /** Pre-exponential factor, 1/s. */
+  A: number;
+  /** Activation energy, kJ/mol. */
+  Ea: number;
+}
+
+export interface PseudoComponent {
+  id: string;
+  /** Mass fraction of its feedstock. */
+  fraction: number;
+  vapour: Arrhenius;
+  gas: Arrhenius;
+  char: Arrhenius;
+}
+
+// Pre-exponential factors are set from the rate at 500 °C so the routes read as
+// "how fast at full heat"; activation energies follow the literature ranges.
+const at500 = (rate: number, Ea: number): Arrhenius => ({ A: rate * Math.exp((Ea * 1000) / (GAS_CONSTANT * 773.15)), Ea });
+
+export const FEEDSTOCK_COMPONENTS: Record<"plastic" | "biomass", PseudoComponent[]> = {
+  plastic: [{ id: "polyolefin", fraction: 1, vapour: at500(0.05, 200), gas: at500(0.008, 210), char: at500(0.002, 180) }],
+  biomass: [
+    { id: "cellulose", fraction: 0.45, vapour: at500(1, 200), gas: at500(0.1, 180), char: at500(0.1, 150) },
+    { id: "hemicellulose", fraction: 0.3, vapour: at500(3, 150), gas: at500(1, 140), char: at500(1, 110) },
+    { id: "lignin", fraction: 0.25, vapour: at500(0.008, 120), gas: at500(0.004, 110), char: at500(0.012, 90) },
+  ],
+};
+
+/** Secondary cracking of vapour to gas (Liden et al.). */
+export const VAPOUR_CRACKING: Arrhenius = { A: 4.28e6, Ea: 107.5 };
+
+export const rateConstant = ({ A, Ea }: Arrhenius, temperature: number) =>
+  A * Math.exp((-Ea * 1000) / (GAS_CONSTANT * (temperature + 273.15)));
+
+/** Temperature (°C) of a cell at `heat` (0–100). */
+export const getCellTemperature = (heat: number, scenario: Scenario = DEFAULT_SCENARIO) =>
+  AMBIENT_TEMPERATURE + (heat / 100) * (scenario.stages.heating.peakTemperature - AMBIENT_TEMPERATURE);
+
+/** Mass fractions of the feed after reacting; `unreacted` plus the phases add up to 1. */
+export interface ReactionOutcome {
+  unreacted: number;
+  phases: Record<ProductPhase, number>;
+}
+
+const emptyPhases = (): Record<ProductPhase, number> =>
+  Object.fromEntries(PRODUCT_PHASES.map(phase => [phase, 0])) as Record<ProductPhase, number>;
+
+/** Decomposition of one pseudo-component held at `temperature` for `time` seconds. */
+export const reactComponent = (component: PseudoComponent, temperature: number, time: number): ReactionOutcome => {
+  const kVapour = rateConstant(component.vapour, temperature);
+  const kGas = rateConstant(component.gas, temperature);
+  const kChar = rateConstant(component.char, temperature);
+  const total = kVapour + kGas + kChar;
+  const unreacted = Math.exp(-total * time);
+  const reacted = 1 - unreacted;
+  if (total === 0 || reacted === 0) return { unreacted: 1, phases: emptyPhases() };
+
+  const vapour = (kVapour / total) * reacted;
+  const cracked = vapour * (1 - Math.exp(-rateConstant(VAPOUR_CRACKING, temperature) * VAPOUR_RESIDENCE));
+  return {
+    unreacted,
+    phases: { vapour: vapour - cracked, gas: (kGas / total) * reacted + cracked, solid: (kChar / total) * reacted },
+  };
+};
+
+/** Average outcome over the heat grid for a feed with `plasticRatio` % plastic. */
+export const reactFeed = (heatGrid: number[][], plasticRatio: number, scenario: Scenario, time: number): ReactionOutcome => {
+  const shares = { plastic: plasticRatio / 100, biomass: 1 - plasticRatio / 100 };
+  const cells = heatGrid.flat();
+  const outcome: ReactionOutcome = { unreacted: 0, phases: emptyPhases() };
+  for (const heat of cells) {
+    const temperature = getCellTemperature(heat, scenario);
+    for (const feedstock of ["plastic", "biomass"] as const) {
+      for (const component of FEEDSTOCK_COMPONENTS[feedstock]) {
+        const weight = (shares[feedstock] * component.fraction) / cells.length;
+        if (weight === 0) continue;
+        const { unreacted, phases } = reactComponent(component, temperature, time);
+        outcome.unreacted += unreacted * weight;
+        for (const phase of PRODUCT_PHASES) outcome.phases[phase] += phases[phase] * weight;
+      }
+    }
+  }
+  return outcome;
+};
+
+export interface KineticYields {
+  /** Share of the feed converted to products, 0..1. */
+  conversion: number;
+  /** Mass fraction of the feed ending up as each product; adds up to `conversion`. */
+  products: Record<ProductType, number>;
+}
+
+/**
+ * Product yields for the feed after `time` seconds in the reactor, relative to
+ * the design conditions: full heat everywhere for the residence time gives the
+ * scenario's yields exactly.
+ */
+export const getKineticYields = (
+  heatGrid: number[][],
+  plasticRatio: number,
+  base: Record<ProductType, number>,
+  scenario: Scenario,
+  time = scenario.stages.heating.residenceTime,
+): KineticYields => {
+  const { residenceTime } = scenario.stages.heating;
+  const design = reactFeed(heatGrid.map(row => row.map(() => 100)), plasticRatio, scenario, residenceTime);
+  const actual = reactFeed(heatGrid, plasticRatio, scenario, time);
+  const designConversion = 1 - design.unreacted;
+  const conversion = designConversion > 0 ? Math.min(1, (1 - actual.unreacted) / designConversion) : 0;
+
+  // Each phase group grows or shrinks with its kinetic yield relative to design
+  const baseByPhase = emptyPhases();
+  for (const product of PRODUCTS) baseByPhase[product.phase] += base[product.id];
+  const weights = emptyPhases();
+  for (const phase of PRODUCT_PHASES) {
+    weights[phase] = design.phases[phase] > 0 ? (baseByPhase[phase] * actual.phases[phase]) / design.phases[phase] : 0;
+  }
+  const totalWeight = PRODUCT_PHASES.reduce((sum, phase) => sum + weights[phase], 0);
+
+  const products = createProductRecord();
+  if (totalWeight === 0) return { conversion: 0, products };
+  for (const product of PRODUCTS) {
+    const group = baseByPhase[product.phase];
+    if (group > 0) products[product.id] = (conversion * weights[product.phase] * base[product.id]) / (totalWeight * group);
+  }
+  return { conversion, products };
+};
+
+export interface ReactionSample extends KineticYields {
+  /** Seconds into the residence time. */
+  time: number;
+}
+
+/** Conversion and product split through the residence time, in `samples` even steps. */
+export const getReactionProfile = (
+  heatGrid: number[][],
+  plasticRatio: number,
+  base: Record<ProductType, number>,
+  scenario: Scenario,
+  samples = 20,
+): ReactionSample[] =>
+  Array.from({ length: samples + 1 }, (_, index) => {
+    const time = (scenario.stages.heating.residenceTime * index) / samples;
+    return { time, ...getKineticYields(heatGrid, plasticRatio, base, scenario, time) };
+  });
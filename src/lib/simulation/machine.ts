@@ -0,0 +1,105 @@
+// Declarative stage flow. Each stage declares its guard, entry/exit actions
+// and successor; the machine walks that graph so stages can be reordered,
+// skipped or inserted without touching the views.
+
+export interface StageDefinition<TState> {
+  id: string;
+  title: string;
+  /** Stage that follows this one, or `null` for the last stage. */
+  next: string | null;
+  /** Listed in the mission progress bar and numbered as a level. */
+  isLevel?: boolean;
+  onEnter?: (state: TState) => TState;
+  onExit?: (state: TState) => TState;
+  /** Guard for leaving the stage; stages without one can always be left. */
+  canComplete?: (state: TState) => boolean;
+  /** Whether the stage currently needs the game clock. */
+  isRunning?: (state: TState) => boolean;
+  /** Advances a running stage by `dt` seconds of game time, for stages the engine's `step` does not cover. */
+  onTick?: (state: TState, dt: number) => TState;
+}
+
+export interface StageMachine<TState extends { stage: string }, TStage extends StageDefinition<TState>> {
+  /** Stages in flow order, starting with the entry stage. */
+  stages: TStage[];
+  get: (id: string) => TStage;
+  current: (state: TState) => TStage;
+  next: (id: string) => TStage | null;
+  /** 1-based level number, or `null` for stages that are not levels. */
+  levelOf: (id: string) => number | null;
+  canAdvance: (state: TState) => boolean;
+  /** First stage in flow order whose guard is not yet satisfied (the last stage once all are). */
+  earliestIncomplete: (state: TState) => TStage;
+  /** Whether every stage before `id` has been completed, so it may be entered directly. */
+  canEnter: (state: TState, id: string) => boolean;
+  /** Leaves the current stage for its successor if the guard allows it. */
+  advance: (state: TState) => TState;
+  /** Moves straight to `id`, running the exit and entry actions. */
+  enter: (state: TState, id: string) => TState;
+}
+
+export const createStageMachine = <TState extends { stage: string }, TStage extends StageDefinition<TState>>(
+  definitions: TStage[],
+  order?: string[],
+): StageMachine<TState, TStage> => {
+  const byId = new Map(definitions.map(stage => [stage.id, stage]));
+
+  const get = (id: string) => {
+    const stage = byId.get(id);
+    if (!stage) throw new Error(`Unknown stage "${id}"`);
+    return stage;
+  };
+
+  const stages: TStage[] = [];
+  if (order) {
+    order.forEach((id, index) => stages.push({ ...get(id), next: order[index + 1] ?? null }));
+  } else if (definitions.length > 0) {
+    for (let stage: TStage | null = definitions[0]; stage; stage = stage.next ? get(stage.next) : null) {
+      if (stages.includes(stage)) throw new Error(`Stage "${stage.id}" is reachable from itself`);
+      stages.push(stage);
+    }
+  }
+  stages.forEach(stage => byId.set(stage.id, stage));
+
+  const next = (id: string) => {
+    const { next: nextId } = get(id);
+    return nextId ? get(nextId) : null;
+  };
+
+  const levels = stages.filter(stage => stage.isLevel).map(stage => stage.id);
+
+  const enter = (state: TState, id: string): TState => {
+    const from = get(state.stage);
+    const to = get(id);
+    const exited = from.onExit ? from.onExit(state) : state;
+    const entered = { ...exited, stage: to.id };
+    return to.onEnter ? to.onEnter(entered) : entered;
+  };
+
+  const canAdvance = (state: TState) => {
+    const stage = get(state.stage);
+    return stage.next !== null && (stage.canComplete?.(state) ?? true);
+  };
+
+  const indexOf = (id: string) => stages.findIndex(stage => stage.id === id);
+
+  const earliestIncomplete = (state: TState) =>
+    stages.find(stage => stage.next !== null && stage.canComplete?.(state) === false) ?? stages[stages.length - 1];
+
+  return {
+    stages,
+    get,
+    current: state => get(state.stage),
+    next,
+    levelOf: id => (levels.includes(id) ? levels.indexOf(id) + 1 : null),
+    canAdvance,
+    earliestIncomplete,
+    canEnter: (state, id) => {
+      // Stages left out of a custom order are never entered
+      const index = indexOf(get(id).id);
+      return index !== -1 && index <= indexOf(earliestIncomplete(state).id);
+    },
+    advance: state => (canAdvance(state) ? enter(state, get(state.stage).next) : state),
+    enter,
+  };
+};
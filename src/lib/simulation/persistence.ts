@@ -0,0 +1,207 @@
+// Saved runs. The whole simulation state is written to storage under a
+// versioned envelope; older saves are brought up to date by the migrations
+// below before they are handed back to the simulator.
+
+import type { SimulationState } from "./engine";
+import { mixFromPlasticRatio } from "./feedstocks";
+import { createProductRecord } from "./products";
+import { DEFAULT_SCENARIO, loadScenario, scenarioSchema, type Scenario } from "./scenario";
+
+export const SAVE_KEY = "pyrolysis-sim:run";
+/** Scenario new runs are started with, as chosen in the scenario editor. */
+export const ACTIVE_SCENARIO_KEY = "pyrolysis-sim:scenario";
+export const SAVE_VERSION = 8;
+
+export interface SavedRun {
+  version: number;
+  /** Epoch milliseconds of the last save. */
+  savedAt: number;
+  state: SimulationState;
+}
+
+export type RunStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+/** Upgrades the saved state of version `n` to version `n + 1`. */
+export type SaveMigration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+// Add an entry keyed by the old version whenever `SimulationState` changes shape.
+export const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+  // v2: stage checkpoints; runs saved before them simply have none yet.
+  1: state => ({ ...state, checkpoints: [] }),
+  // v3: plugin stage slices.
+  2: state => ({
+    ...state,
+    plugins: {},
+    checkpoints: (state.checkpoints as { snapshot: object }[]).map(checkpoint => ({
+      ...checkpoint,
+      snapshot: { ...checkpoint.snapshot, plugins: {} },
+    })),
+  }),
+  // v4: product registry; bins for the new byproducts start empty.
+  3: state => {
+    const withBins = (run: Record<string, unknown>) => {
+      const sorting = run.sorting as { progress: object };
+      return { ...run, sorting: { ...sorting, progress: { ...createProductRecord(), ...sorting.progress } } };
+    };
+    return {
+      ...withBins(state),
+      checkpoints: (state.checkpoints as { snapshot: Record<string, unknown> }[]).map(checkpoint => ({
+        ...checkpoint,
+        snapshot: withBins(checkpoint.snapshot),
+      })),
+    };
+  },
+  // v5: scenarios; earlier runs were all played under the standard mission.
+  4: state => ({
+    ...state,
+    scenario: DEFAULT_SCENARIO,
+    checkpoints: (state.checkpoints as { snapshot: object }[]).map(checkpoint => ({
+      ...checkpoint,
+      snapshot: { ...checkpoint.snapshot, scenario: DEFAULT_SCENARIO },
+    })),
+  }),
+  // v6: reactor temperature and residence time; scenarios are parsed again to pick up their defaults.
+  5: state => {
+    const withDefaults = (run: Record<string, unknown>) => {
+      const scenario = scenarioSchema.safeParse(run.scenario);
+      return scenario.success ? { ...run, scenario: scenario.data } : run;
+    };
+    return {
+      ...withDefaults(state),
+      checkpoints: (state.checkpoints as { snapshot: Record<string, unknown> }[]).map(checkpoint => ({
+        ...checkpoint,
+        snapshot: withDefaults(checkpoint.snapshot),
+      })),
+    };
+  },
+  // v7: feed compositions; a plastic ratio stands for the standard plastic/biomass pair.
+  6: state => {
+    const withFeed = (run: Record<string, unknown>) => ({ ...run, feed: mixFromPlasticRatio(run.plasticRatio as number) });
+    return {
+      ...withFeed(state),
+      checkpoints: (state.checkpoints as { snapshot: Record<string, unknown> }[]).map(checkpoint => ({
+        ...checkpoint,
+        snapshot: withFeed(checkpoint.snapshot),
+      })),
+    };
+  },
+  // v8: dechlorination; earlier runs never had it.
+  7: state => ({
+    ...state,
+    dechlorination: false,
+    checkpoints: (state.checkpoints as { snapshot: object }[]).map(checkpoint => ({
+      ...checkpoint,
+      snapshot: { ...checkpoint.snapshot, dechlorination: false },
+    })),
+  }),
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isSimulationState = (value: Record<string, unknown>): boolean =>
+  typeof value.seed === "number" &&
+  isRecord(value.scenario) &&
+  typeof value.stage === "string" &&
+  Array.isArray(value.feed) &&
+  typeof value.plasticRatio === "number" &&
+  Array.isArray(value.heatGrid) &&
+  typeof value.dechlorination === "boolean" &&
+  isRecord(value.sorting) &&
+  isRecord(value.cooling) &&
+  isRecord(value.plugins) &&
+  Array.isArray(value.checkpoints);
+
+/** Parses and migrates a raw save; anything unreadable, from the future or malformed yields `null`. */
+export const parseSavedRun = (raw: string | null, migrations = SAVE_MIGRATIONS): SavedRun | null => {
+  if (!raw) return null;
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isRecord(data) || typeof data.version !== "number" || !isRecord(data.state)) return null;
+  if (data.version > SAVE_VERSION) return null;
+
+  let state = data.state;
+  for (let version = data.version; version < SAVE_VERSION; version++) {
+    const migrate = migrations[version];
+    if (!migrate) return null;
+    state = migrate(state);
+  }
+  if (!isSimulationState(state)) return null;
+  return {
+    version: SAVE_VERSION,
+    savedAt: typeof data.savedAt === "number" ? data.savedAt : 0,
+    state: state as unknown as SimulationState,
+  };
+};
+
+export const serializeRun = (state: SimulationState, savedAt = Date.now()): string =>
+  JSON.stringify({ version: SAVE_VERSION, savedAt, state } satisfies SavedRun);
+
+const noStorage: RunStorage = {
+  getItem: () => null,
+  setItem: () => {},
+  removeItem: () => {},
+};
+
+/** `localStorage`, or a storage that keeps nothing where the browser denies access to it. */
+export const getBrowserStorage = (): RunStorage => {
+  try {
+    return window.localStorage ?? noStorage;
+  } catch {
+    return noStorage;
+  }
+};
+
+// Storage can be missing or full (private browsing, quotas); saving is best effort.
+export const loadRun = (storage: RunStorage): SavedRun | null => {
+  try {
+    return parseSavedRun(storage.getItem(SAVE_KEY));
+  } catch {
+    return null;
+  }
+};
+
+export const saveRun = (storage: RunStorage, state: SimulationState) => {
+  try {
+    storage.setItem(SAVE_KEY, serializeRun(state));
+  } catch {
+    // Ignored: the run simply will not be resumable.
+  }
+};
+
+export const clearRun = (storage: RunStorage) => {
+  try {
+    storage.removeItem(SAVE_KEY);
+  } catch {
+    // Ignored, see above.
+  }
+};
+
+export const loadActiveScenario = (storage: RunStorage): Scenario | null => {
+  try {
+    const raw = storage.getItem(ACTIVE_SCENARIO_KEY);
+    return raw ? loadScenario(raw).scenario : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveActiveScenario = (storage: RunStorage, scenario: Scenario) => {
+  try {
+    storage.setItem(ACTIVE_SCENARIO_KEY, JSON.stringify(scenario));
+  } catch {
+    // Ignored: new runs fall back to the standard mission.
+  }
+};
+
+export const clearActiveScenario = (storage: RunStorage) => {
+  try {
+    storage.removeItem(ACTIVE_SCENARIO_KEY);
+  } catch {
+    // Ignored, see above.
+  }
+};
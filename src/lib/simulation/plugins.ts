@@ -0,0 +1,88 @@
+// Simulation side of stage plugins. A plugin adds a stage to the mission with
+// its own slice of state (kept in `state.plugins[id]`), completion criteria,
+// optional clock-driven behaviour and a contribution to the final results.
+
+import { getChlorineReport, getPenaltyTotal } from "./chlorine";
+import { SimulationResults, SimulationState, computeResults, getProductRevenue } from "./engine";
+import { PRODUCT_TYPES } from "./products";
+
+export interface PluginContribution {
+  /** Stage score shown in the results breakdown and averaged into the overall efficiency, 0..100. */
+  score: number;
+  /** Scales every product yield, e.g. 0.9 when a poorly run stage wastes a tenth of the material. */
+  yieldFactor?: number;
+}
+
+export interface SimulationPlugin<TSlice = unknown> {
+  /** Stage id, route segment and key of the plugin's state slice. */
+  id: string;
+  title: string;
+  /** Stage the plugin stage is inserted in front of; defaults to the results stage. */
+  before?: string;
+  initialState: (state: SimulationState) => TSlice;
+  /** Guard for leaving the stage; plugins without one can always be left. */
+  canComplete?: (slice: TSlice, state: SimulationState) => boolean;
+  /** Whether the stage currently needs the game clock. */
+  isRunning?: (slice: TSlice, state: SimulationState) => boolean;
+  /** Advances the slice by `dt` seconds of game time while the stage is running. */
+  step?: (slice: TSlice, dt: number, state: SimulationState) => TSlice;
+  results?: (slice: TSlice, state: SimulationState) => PluginContribution;
+}
+
+export interface StageContribution extends PluginContribution {
+  id: string;
+  title: string;
+}
+
+export interface MissionResults extends SimulationResults {
+  /** Contributions of plugin stages, in registration order. */
+  stages: StageContribution[];
+}
+
+/** The plugin's slice, falling back to its initial state until the stage first writes it. */
+export const getPluginState = <TSlice>(state: SimulationState, plugin: SimulationPlugin<TSlice>): TSlice =>
+  plugin.id in state.plugins ? (state.plugins[plugin.id] as TSlice) : plugin.initialState(state);
+
+export const setPluginState = <TSlice>(
+  state: SimulationState,
+  plugin: Pick<SimulationPlugin<TSlice>, "id">,
+  slice: TSlice,
+): SimulationState => ({ ...state, plugins: { ...state.plugins, [plugin.id]: slice } });
+
+/**
+ * Core results with the plugin stages folded in: their yield factors scale the
+ * product yields (the difference is booked as stage losses in the mass
+ * balance) and their scores join the overall efficiency average. The chlorine
+ * penalties are per tonne of feed, so they are taken off the scaled revenue
+ * rather than scaled along with it.
+ */
+export const computeMissionResults = (state: SimulationState, plugins: SimulationPlugin[]): MissionResults => {
+  const base = computeResults(state);
+  const stages = plugins.flatMap(plugin =>
+    plugin.results ? [{ id: plugin.id, title: plugin.title, ...plugin.results(getPluginState(state, plugin), state) }] : [],
+  );
+  if (stages.length === 0) return { ...base, stages };
+
+  const yieldFactor = stages.reduce((factor, stage) => factor * (stage.yieldFactor ?? 1), 1);
+  const yields = { ...base.yields };
+  for (const id of PRODUCT_TYPES) yields[id] *= yieldFactor;
+  const totalYield = PRODUCT_TYPES.reduce((sum, id) => sum + yields[id], 0);
+  const baseTotalYield = PRODUCT_TYPES.reduce((sum, id) => sum + base.yields[id], 0);
+  const stageScores = stages.reduce((sum, stage) => sum + stage.score, 0);
+  // The same chlorine spread over less fuel
+  const chlorine = getChlorineReport(state, yields.liquidFuel);
+
+  return {
+    ...base,
+    yields,
+    // Whatever the plugin stages waste stays in the balance as their own loss stream
+    balance: {
+      products: { ...yields },
+      losses: { ...base.balance.losses, stages: base.balance.losses.stages + baseTotalYield - totalYield },
+    },
+    productValue: getProductRevenue(yields) - getPenaltyTotal(chlorine),
+    chlorine,
+    overallEfficiency: (totalYield / 3 + base.sortingRecovery + base.condensationQuality + stageScores) / (3 + stages.length),
+    stages,
+  };
+};
@@ -0,0 +1,106 @@
+// Product registry. Every pyrolysis output the game knows about is described
+// here once; the engine, sorting bins and results breakdown are all driven by
+// this list. Icons live with the views (see `productIcons.ts`).
+
+export const PRODUCT_PHASES = ["vapour", "gas", "solid"] as const;
+
+export type ProductPhase = (typeof PRODUCT_PHASES)[number];
+
+export interface ProductDefinition {
+  id: string;
+  /** Name on the sorting bin and in the results. */
+  label: string;
+  /** Tag printed on conveyor items. */
+  shortLabel: string;
+  /** Display colour as a CSS colour. */
+  color: string;
+  /** Mass fraction of the product from pure plastic and from pure biomass feedstock. */
+  yields: { plastic: number; biomass: number };
+  /**
+   * Where the product leaves the reactor: condensable vapour (so the cooling
+   * stage governs how much is captured), permanent gas, or solid residue.
+   */
+  phase: ProductPhase;
+  /** Market value in USD per tonne; negative for streams that cost money to treat or dispose of. */
+  value: number;
+}
+
+export const PRODUCTS = [
+  {
+    id: "liquidFuel",
+    label: "Liquid Fuel",
+    shortLabel: "OIL",
+    color: "#eab308",
+    yields: { plastic: 0.55, biomass: 0.2 },
+    phase: "vapour",
+    value: 600,
+  },
+  {
+    id: "wax",
+    label: "Wax",
+    shortLabel: "WAX",
+    color: "#fb923c",
+    yields: { plastic: 0.1, biomass: 0 },
+    phase: "vapour",
+    value: 450,
+  },
+  {
+    id: "syngas",
+    label: "Syngas",
+    shortLabel: "GAS",
+    color: "#c084fc",
+    yields: { plastic: 0.22, biomass: 0.3 },
+    phase: "gas",
+    value: 150,
+  },
+  {
+    id: "tar",
+    label: "Tar",
+    shortLabel: "TAR",
+    color: "#a8a29e",
+    yields: { plastic: 0.03, biomass: 0.05 },
+    phase: "vapour",
+    value: 80,
+  },
+  {
+    id: "aqueous",
+    label: "Aqueous Phase",
+    shortLabel: "H₂O",
+    color: "#38bdf8",
+    yields: { plastic: 0, biomass: 0.12 },
+    phase: "vapour",
+    value: -25,
+  },
+  {
+    id: "biochar",
+    label: "Biochar",
+    shortLabel: "CHAR",
+    color: "#94a3b8",
+    yields: { plastic: 0.08, biomass: 0.3 },
+    phase: "solid",
+    value: 300,
+  },
+  {
+    id: "ash",
+    label: "Ash",
+    shortLabel: "ASH",
+    color: "#d6d3d1",
+    yields: { plastic: 0.02, biomass: 0.03 },
+    phase: "solid",
+    value: -40,
+  },
+] as const satisfies readonly ProductDefinition[];
+
+export type ProductType = (typeof PRODUCTS)[number]["id"];
+
+export const PRODUCT_TYPES: ProductType[] = PRODUCTS.map(product => product.id);
+
+const byId = new Map<string, ProductDefinition>(PRODUCTS.map(product => [product.id, product]));
+
+export const getProduct = (id: ProductType): ProductDefinition => byId.get(id)!;
+
+export const isProductType = (value: unknown): value is ProductType => typeof value === "string" && byId.has(value);
+
+/** The same value for every product, e.g. the empty bin counts of a new run. */
+export const createProductRecord = (value = 0): Record<ProductType, number> =>
+  Object.fromEntries(PRODUCT_TYPES.map(id => [id, value])) as Record<ProductType, number>;
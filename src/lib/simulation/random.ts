@@ -0,0 +1,52 @@
+// Seedable pseudo-random numbers for the simulator. A run is fully described by
+// its seed: every random decision draws from a named stream derived from it, so
+// replaying a seed reproduces the same product sequence and events.
+
+export type RandomSource = () => number;
+
+const MAX_SEED = 0x100000000;
+
+/** Mulberry32: tiny, fast and good enough for gameplay randomness. */
+export const createRandom = (seed: number): RandomSource => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / MAX_SEED;
+  };
+};
+
+/** FNV-1a hash of a string, used to turn stream names and text seeds into numbers. */
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/** Seed for an independent stream of the run, e.g. `deriveSeed(seed, "products")`. */
+export const deriveSeed = (seed: number, stream: string): number => (seed ^ hashString(stream)) >>> 0;
+
+/**
+ * Generator for the `index`-th sub-stream of a named stream, so values keyed by
+ * an id or a tick count need no generator state carried between calls.
+ */
+export const createStream = (seed: number, stream: string, index = 0): RandomSource =>
+  createRandom((deriveSeed(seed, stream) + Math.imul(index, 0x9e3779b1)) >>> 0);
+
+/** Single draw keyed by `index`, e.g. the position of the n-th spawned product. */
+export const randomAt = (seed: number, stream: string, index: number): number => createStream(seed, stream, index)();
+
+export const generateSeed = (): number => Math.floor(Math.random() * MAX_SEED);
+
+/** Accepts either a numeric seed or any text (hashed) as found in `?seed=`. */
+export const parseSeed = (value: string | null | undefined): number | null => {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) % MAX_SEED;
+  return hashString(trimmed);
+};
@@ -0,0 +1,315 @@
+// Input recording and replay. Every player input is recorded against the
+// time since the run started; since the engine is deterministic, applying the
+// same inputs to the same starting state plays the run back identically.
+// Clock ticks are inputs too, stored as runs of consecutive ticks.
+
+import { z } from "zod";
+import {
+  COOLING_TICK,
+  captureCheckpoint,
+  dropProduct,
+  heatCell,
+  restoreCheckpoint,
+  setCoolingPower,
+  setDechlorination,
+  setFeed,
+  setPlasticRatio,
+  startCooling,
+  step,
+  type SimulationState,
+} from "./engine";
+import { fastForward } from "./debug";
+import { FEEDSTOCK_IDS, type FeedMix, type FeedstockId } from "./feedstocks";
+import type { StageDefinition, StageMachine } from "./machine";
+import { parseSavedRun, SAVE_VERSION } from "./persistence";
+import { setPluginState } from "./plugins";
+import { PRODUCT_TYPES, type ProductType } from "./products";
+import { formatScenarioIssues } from "./scenario";
+
+export const REPLAY_VERSION = 1;
+
+export type RunInput =
+  | { type: "enterStage"; stage: string }
+  | { type: "retryStage"; stage: string }
+  | { type: "setPlasticRatio"; value: number }
+  | { type: "setFeed"; mix: FeedMix }
+  | { type: "heatCell"; row: number; col: number }
+  | { type: "setDechlorination"; enabled: boolean }
+  | { type: "dropProduct"; bin: ProductType; productId: number }
+  | { type: "setCoolingPower"; power: number }
+  | { type: "startCooling" }
+  /** New state slice of a plugin stage, as its component wrote it. */
+  | { type: "setPluginState"; plugin: string; slice: unknown }
+  /** `count` clock ticks spread evenly over `duration` milliseconds. */
+  | { type: "tick"; count: number; duration: number }
+  /** Debug overlay fast-forward of the running timer. */
+  | { type: "fastForward"; seconds: number };
+
+export interface ReplayEntry {
+  /** Milliseconds since the recording started. */
+  at: number;
+  input: RunInput;
+}
+
+export interface ReplayFile {
+  version: typeof REPLAY_VERSION;
+  /** Save format version of `initial`, so older replays go through the save migrations. */
+  saveVersion: number;
+  recordedAt: string;
+  initial: SimulationState;
+  entries: ReplayEntry[];
+}
+
+/** How inputs that depend on the stage flow are applied; supplied by the stage machine's owner. */
+export interface ReplayContext {
+  enter: (state: SimulationState, stageId: string) => SimulationState;
+  tick: (state: SimulationState, dt: number) => SimulationState;
+  isRunning: (state: SimulationState) => boolean;
+  timestep: number;
+}
+
+/** Inputs applied through the stage machine: stage hooks on entry, and each stage's own tick. */
+export const createReplayContext = <TStage extends StageDefinition<SimulationState>>(
+  machine: StageMachine<SimulationState, TStage>,
+): ReplayContext => ({
+  enter: machine.enter,
+  tick: (state, dt) => {
+    const { onTick } = machine.current(state);
+    return onTick ? onTick(state, dt) : step(state, { coolingPower: state.cooling.power }, dt);
+  },
+  isRunning: state => machine.current(state).isRunning?.(state) ?? false,
+  timestep: COOLING_TICK,
+});
+
+export const applyInput = (state: SimulationState, input: RunInput, context: ReplayContext): SimulationState => {
+  switch (input.type) {
+    case "enterStage":
+      return captureCheckpoint(context.enter(state, input.stage));
+    case "retryStage":
+      return restoreCheckpoint(state, input.stage);
+    case "setPlasticRatio":
+      return setPlasticRatio(state, input.value);
+    case "setFeed":
+      return setFeed(state, input.mix);
+    case "heatCell":
+      return heatCell(state, input.row, input.col);
+    case "setDechlorination":
+      return setDechlorination(state, input.enabled);
+    case "dropProduct":
+      return dropProduct(state, input.bin, input.productId);
+    case "setCoolingPower":
+      return setCoolingPower(state, input.power);
+    case "startCooling":
+      return startCooling(state);
+    case "setPluginState":
+      return setPluginState(state, { id: input.plugin }, input.slice);
+    case "tick":
+      return applyTicks(state, input.count, context);
+    case "fastForward":
+      return fastForward(state, input.seconds, context.tick, context.isRunning);
+  }
+};
+
+const applyTicks = (state: SimulationState, count: number, context: ReplayContext) => {
+  let next = state;
+  for (let i = 0; i < count; i++) next = context.tick(next, context.timestep);
+  return next;
+};
+
+// A gap longer than this between two ticks (a pause, say) starts a new run.
+const TICK_RUN_GAP = 250;
+
+export interface Recorder {
+  /** Starts a new recording from `initial`, dropping the previous one. */
+  start: (initial: SimulationState) => void;
+  record: (input: RunInput) => void;
+  toFile: () => ReplayFile;
+}
+
+export const createRecorder = (now: () => number = Date.now): Recorder => {
+  let initial: SimulationState | null = null;
+  let startedAt = now();
+  let entries: ReplayEntry[] = [];
+
+  return {
+    start: state => {
+      initial = state;
+      startedAt = now();
+      entries = [];
+    },
+    record: input => {
+      const at = now() - startedAt;
+      const last = entries[entries.length - 1];
+      if (input.type === "tick" && last?.input.type === "tick" && at - (last.at + last.input.duration) <= TICK_RUN_GAP) {
+        entries[entries.length - 1] = {
+          at: last.at,
+          input: { type: "tick", count: last.input.count + input.count, duration: at - last.at },
+        };
+        return;
+      }
+      entries.push({ at, input });
+    },
+    toFile: () => {
+      if (!initial) throw new Error("Nothing has been recorded yet");
+      return {
+        version: REPLAY_VERSION,
+        saveVersion: SAVE_VERSION,
+        recordedAt: new Date(startedAt).toISOString(),
+        initial,
+        entries: [...entries],
+      };
+    },
+  };
+};
+
+const count = z.number().int().min(0);
+
+const inputSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("enterStage"), stage: z.string().min(1) }),
+  z.object({ type: z.literal("retryStage"), stage: z.string().min(1) }),
+  z.object({ type: z.literal("setPlasticRatio"), value: z.number() }),
+  z.object({
+    type: z.literal("setFeed"),
+    // Recorded while editing, so the shares need not add up yet
+    mix: z.array(
+      z.object({
+        id: z.enum(FEEDSTOCK_IDS as [FeedstockId, ...FeedstockId[]]),
+        share: z.number(),
+        moisture: z.number().optional(),
+        particleSize: z.number().optional(),
+      }),
+    ),
+  }),
+  z.object({ type: z.literal("heatCell"), row: count, col: count }),
+  z.object({ type: z.literal("setDechlorination"), enabled: z.boolean() }),
+  z.object({
+    type: z.literal("dropProduct"),
+    bin: z.enum(PRODUCT_TYPES as [ProductType, ...ProductType[]]),
+    productId: count,
+  }),
+  z.object({ type: z.literal("setCoolingPower"), power: z.number() }),
+  z.object({ type: z.literal("startCooling") }),
+  z.object({ type: z.literal("setPluginState"), plugin: z.string().min(1), slice: z.unknown() }),
+  z.object({ type: z.literal("tick"), count: count, duration: z.number().min(0) }),
+  z.object({ type: z.literal("fastForward"), seconds: z.number().positive() }),
+]);
+
+const replaySchema = z.object({
+  version: z.literal(REPLAY_VERSION, {
+    errorMap: () => ({ message: `Unsupported replay version, expected ${REPLAY_VERSION}` }),
+  }),
+  saveVersion: z.number().int(),
+  recordedAt: z.string(),
+  initial: z.record(z.unknown()),
+  entries: z.array(z.object({ at: z.number().min(0), input: inputSchema })),
+});
+
+export interface ReplayParseResult {
+  replay: ReplayFile | null;
+  errors: string[];
+}
+
+/** Inputs the engine would choke on: stages outside `stageIds` and cells off the heat grid. */
+const findUnplayableInputs = (initial: SimulationState, entries: ReplayEntry[], stageIds: string[]): string[] => {
+  const errors: string[] = [];
+  const isStage = (id: string) => stageIds.includes(id);
+  if (!isStage(initial.stage)) errors.push(`initial.stage: Unknown stage "${initial.stage}"`);
+  initial.scenario.levels?.forEach((id, index) => {
+    if (!isStage(id)) errors.push(`initial.scenario.levels.${index}: Unknown stage "${id}"`);
+  });
+  entries.forEach(({ input }, index) => {
+    if ((input.type === "enterStage" || input.type === "retryStage") && !isStage(input.stage)) {
+      errors.push(`entries.${index}.input.stage: Unknown stage "${input.stage}"`);
+    }
+    if (input.type === "setPluginState" && !isStage(input.plugin)) {
+      errors.push(`entries.${index}.input.plugin: Unknown stage "${input.plugin}"`);
+    }
+    if (input.type === "heatCell" && !(input.row < initial.heatGrid.length && input.col < initial.heatGrid[input.row].length)) {
+      errors.push(`entries.${index}.input: Cell ${input.row},${input.col} is outside the heat grid`);
+    }
+  });
+  return errors;
+};
+
+/**
+ * Parses the text of a replay file; the starting state goes through the save
+ * migrations. `stageIds` are the stages this build can play.
+ */
+export const loadReplay = (json: string, stageIds: string[]): ReplayParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return { replay: null, errors: [`replay: Not valid JSON (${(error as Error).message})`] };
+  }
+  const parsed = replaySchema.safeParse(data);
+  if (!parsed.success) return { replay: null, errors: formatScenarioIssues(parsed.error) };
+
+  const { saveVersion, initial, recordedAt, entries } = parsed.data;
+  const saved = parseSavedRun(JSON.stringify({ version: saveVersion, state: initial }));
+  if (!saved) return { replay: null, errors: ["initial: Not a run this version of the game can play"] };
+  const unplayable = findUnplayableInputs(saved.state, entries as ReplayEntry[], stageIds);
+  if (unplayable.length > 0) return { replay: null, errors: unplayable };
+  return {
+    replay: {
+      version: REPLAY_VERSION,
+      saveVersion: SAVE_VERSION,
+      recordedAt,
+      initial: saved.state,
+      entries: entries as ReplayEntry[],
+    },
+    errors: [],
+  };
+};
+
+export const getReplayDuration = (replay: ReplayFile) =>
+  replay.entries.reduce((end, { at, input }) => Math.max(end, at + (input.type === "tick" ? input.duration : 0)), 0);
+
+export interface ReplayCursor {
+  duration: number;
+  /** State of the run `ms` milliseconds into the recording. */
+  seek: (ms: number) => SimulationState;
+}
+
+/** Plays a replay forward incrementally; seeking backwards starts over from the beginning. */
+export const createReplayCursor = (replay: ReplayFile, context: ReplayContext): ReplayCursor => {
+  let position = 0;
+  let index = 0;
+  let ticksApplied = 0;
+  let state = replay.initial;
+
+  const reset = () => {
+    position = 0;
+    index = 0;
+    ticksApplied = 0;
+    state = replay.initial;
+  };
+
+  return {
+    duration: getReplayDuration(replay),
+    seek: ms => {
+      if (ms < position) reset();
+      position = ms;
+      while (index < replay.entries.length && replay.entries[index].at <= ms) {
+        const { at, input } = replay.entries[index];
+        if (input.type !== "tick") {
+          state = applyInput(state, input, context);
+          index++;
+          continue;
+        }
+        // Tick runs are spread over their duration so timers move smoothly while scrubbing
+        // (the first tick of a run lands at its start, the last at its end)
+        const due =
+          input.duration > 0
+            ? Math.min(input.count, Math.floor(((ms - at) / input.duration) * (input.count - 1)) + 1)
+            : input.count;
+        state = applyTicks(state, Math.max(0, due - ticksApplied), context);
+        ticksApplied = Math.max(ticksApplied, due);
+        if (ticksApplied < input.count) break;
+        ticksApplied = 0;
+        index++;
+      }
+      return state;
+    },
+  };
+};
@@ -0,0 +1,204 @@
+// Scenario files. A scenario is a versioned JSON document that sets the
+// feedstock yield coefficients, the parameters of every stage and the targets
+// a run is graded against. Every field except `version` and `title` is
+// optional and falls back to the standard mission.
+
+import { z } from "zod";
+import type { SimulationResults } from "./engine";
+import {
+  FEEDSTOCK_IDS,
+  MAX_MOISTURE,
+  MAX_PARTICLE_SIZE,
+  MIN_PARTICLE_SIZE,
+  getMixTotal,
+  isMixComplete,
+  type FeedMix,
+  type FeedstockId,
+} from "./feedstocks";
+import { PRODUCTS, PRODUCT_TYPES, createProductRecord, type ProductType } from "./products";
+
+export const SCENARIO_VERSION = 1;
+
+export const SCENARIO_DIFFICULTIES = ["easy", "medium", "hard"] as const;
+
+// Yield fractions of a feedstock may be off by rounding in hand-written files.
+const YIELD_SUM_TOLERANCE = 0.001;
+
+const fraction = z.number().min(0).max(1);
+const percentage = z.number().min(0).max(100);
+
+const yieldsSchema = z
+  .record(z.enum(PRODUCT_TYPES as [ProductType, ...ProductType[]]), fraction)
+  .superRefine((yields, ctx) => {
+    const total = Object.values(yields).reduce((sum, value) => sum + (value ?? 0), 0);
+    if (Math.abs(total - 1) > YIELD_SUM_TOLERANCE) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Yields must add up to 1 (they add up to ${+total.toFixed(4)})` });
+    }
+  })
+  .transform(yields => ({ ...createProductRecord(), ...yields }));
+
+const feedstockSchema = (feedstock: "plastic" | "biomass") =>
+  z
+    .object({ yields: yieldsSchema })
+    .strict()
+    .default({ yields: Object.fromEntries(PRODUCTS.map(product => [product.id, product.yields[feedstock]])) });
+
+/** A feed composition: catalog feedstocks with shares adding up to 100 %. */
+export const feedMixSchema = z
+  .array(
+    z
+      .object({
+        id: z.enum(FEEDSTOCK_IDS as [FeedstockId, ...FeedstockId[]]),
+        share: z.number().gt(0).max(100),
+        moisture: z.number().min(0).max(MAX_MOISTURE).optional(),
+        particleSize: z.number().min(MIN_PARTICLE_SIZE).max(MAX_PARTICLE_SIZE).optional(),
+      })
+      .strict(),
+  )
+  .min(1)
+  // Fields of the components are only optional in zod's view without strict null checks
+  .transform(mix => mix as FeedMix)
+  .superRefine((mix, ctx) => {
+    if (new Set(mix.map(component => component.id)).size !== mix.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Each feedstock can only appear once" });
+    }
+    if (!isMixComplete(mix)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Shares must add up to 100 (they add up to ${+getMixTotal(mix).toFixed(2)})`,
+      });
+    }
+  });
+
+export const scenarioSchema = z
+  .object({
+    version: z.literal(SCENARIO_VERSION, {
+      errorMap: () => ({ message: `Unsupported scenario version, expected ${SCENARIO_VERSION}` }),
+    }),
+    id: z.string().min(1).default("custom"),
+    title: z.string().min(1),
+    description: z.string().default(""),
+    /** Shown in the scenario library; purely informational. */
+    difficulty: z.enum(SCENARIO_DIFFICULTIES).optional(),
+    feedstocks: z
+      .object({ plastic: feedstockSchema("plastic"), biomass: feedstockSchema("biomass") })
+      .strict()
+      .default({}),
+    stages: z
+      .object({
+        feedstock: z
+          .object({
+            plasticRatio: z.number().int().min(0).max(100).default(50),
+            /** Starting feed composition; a plastic/biomass pair at `plasticRatio` when omitted. */
+            mix: feedMixSchema.optional(),
+          })
+          .strict()
+          .default({}),
+        heating: z
+          .object({
+            gridSize: z.number().int().min(2).max(20).default(10),
+            /** Heat completeness (%) needed to leave the stage. */
+            threshold: z.number().min(1).max(100).default(70),
+            /** Reactor temperature (°C) of a fully heated cell. */
+            peakTemperature: z.number().min(200).max(900).default(500),
+            /** Seconds the feed stays in the reactor at its final heat. */
+            residenceTime: z.number().positive().max(7200).default(600),
+          })
+          .strict()
+          .default({}),
+        sorting: z
+          .object({
+            productCount: z.number().int().min(1).max(100).default(15),
+            /** Seconds between two products appearing on the conveyor. */
+            spawnInterval: z.number().positive().max(60).default(1.5),
+          })
+          .strict()
+          .default({}),
+        cooling: z
+          .object({
+            /** Seconds the cooling run lasts. */
+            duration: z.number().positive().max(600).default(15),
+            initialGasTemp: z.number().min(100).max(900).default(600),
+            optimalGasTemp: z.number().min(100).max(900).default(400),
+          })
+          .strict()
+          .default({}),
+      })
+      .strict()
+      .default({}),
+    /** Level stages to play, in order; every registered level in its usual place when omitted. */
+    levels: z
+      .array(z.string().min(1))
+      .min(1)
+      .refine(levels => new Set(levels).size === levels.length, { message: "Each level can only be played once" })
+      .optional(),
+    /** Minimum scores a run should reach; metrics without a target are not graded. */
+    targets: z
+      .object({
+        overallEfficiency: percentage,
+        sortingRecovery: percentage,
+        condensationQuality: percentage,
+        productValue: z.number(),
+      })
+      .partial()
+      .strict()
+      .default({}),
+  })
+  .strict();
+
+export type Scenario = z.output<typeof scenarioSchema>;
+export type ScenarioInput = z.input<typeof scenarioSchema>;
+
+export interface ScenarioParseResult {
+  /** The validated scenario, or `null` when there are errors. */
+  scenario: Scenario | null;
+  errors: string[];
+}
+
+/** One line per problem, prefixed with the path of the offending field, e.g. `stages.sorting.productCount: ...`. */
+export const formatScenarioIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join(".") : "scenario"}: ${issue.message}`);
+
+export const parseScenario = (input: unknown): ScenarioParseResult => {
+  const parsed = scenarioSchema.safeParse(input);
+  return parsed.success
+    ? { scenario: parsed.data, errors: [] }
+    : { scenario: null, errors: formatScenarioIssues(parsed.error) };
+};
+
+/** Parses the text of a scenario file. */
+export const loadScenario = (json: string): ScenarioParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return { scenario: null, errors: [`scenario: Not valid JSON (${(error as Error).message})`] };
+  }
+  return parseScenario(data);
+};
+
+export const DEFAULT_SCENARIO: Scenario = scenarioSchema.parse({
+  version: SCENARIO_VERSION,
+  id: "standard",
+  title: "Standard Mission",
+  description: "An even mix of plastic and biomass through every stage of the plant.",
+  difficulty: "easy",
+});
+
+export type TargetMetric = keyof Scenario["targets"];
+
+export interface TargetResult {
+  metric: TargetMetric;
+  target: number;
+  actual: number;
+  met: boolean;
+}
+
+/** Grades the results against the targets the scenario sets. */
+export const evaluateTargets = (results: SimulationResults, targets: Scenario["targets"]): TargetResult[] =>
+  (Object.keys(targets) as TargetMetric[]).flatMap(metric => {
+    const target = targets[metric];
+    if (target === undefined) return [];
+    const actual = results[metric];
+    return [{ metric, target, actual, met: actual >= target }];
+  });
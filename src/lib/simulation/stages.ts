@@ -0,0 +1,55 @@
+// The core mission flow without its screens. The simulator pairs each stage
+// with a component; headless runs (the batch runner, the `simulate` command)
+// walk the same definitions, so both play the stages a scenario asks for.
+
+import {
+  isCoolingComplete,
+  isCoolingRunning,
+  isFeedComplete,
+  isHeatingComplete,
+  isSortingComplete,
+  isSortingRunning,
+  prepareSorting,
+  type SimulationState,
+  type StageId,
+} from "./engine";
+import type { StageDefinition } from "./machine";
+
+export interface CoreStageDefinition extends StageDefinition<SimulationState> {
+  id: StageId;
+}
+
+/** The core stages in flow order. The first entry is where every run starts. */
+export const CORE_STAGES: CoreStageDefinition[] = [
+  { id: "landing", title: "Mission Briefing", next: "feedstock" },
+  { id: "feedstock", title: "Feedstock Input", next: "heating", isLevel: true, canComplete: isFeedComplete },
+  { id: "heating", title: "Microwave Heating", next: "sorting", isLevel: true, canComplete: isHeatingComplete },
+  {
+    id: "sorting",
+    title: "Output Sorting",
+    next: "cooling",
+    isLevel: true,
+    onEnter: prepareSorting,
+    canComplete: isSortingComplete,
+    isRunning: isSortingRunning,
+  },
+  {
+    id: "cooling",
+    title: "Syngas Cooling",
+    next: "results",
+    isLevel: true,
+    canComplete: isCoolingComplete,
+    isRunning: isCoolingRunning,
+  },
+  { id: "results", title: "Mission Results", next: null },
+];
+
+/**
+ * Full stage order for a scenario's `levels`: the entry stage, the chosen
+ * levels, then the final stage. `undefined` keeps the stages' own flow.
+ */
+export const getStageOrder = (stages: { id: string; next: string | null }[], levels?: string[]): string[] | undefined => {
+  if (!levels) return undefined;
+  const last = stages.find(stage => stage.next === null);
+  return [stages[0].id, ...levels, ...(last ? [last.id] : [])];
+};
@@ -0,0 +1,13 @@
+// Messages exchanged with the simulation web worker.
+
+import type { RunScenario, ScenarioResult } from "./batch";
+
+export type SimulationWorkerRequest =
+  | { type: "run"; jobId: number; scenarios: RunScenario[] }
+  | { type: "cancel"; jobId: number };
+
+export type SimulationWorkerResponse =
+  | { type: "progress"; jobId: number; completed: number; total: number }
+  | { type: "done"; jobId: number; results: ScenarioResult[] }
+  | { type: "cancelled"; jobId: number }
+  | { type: "error"; jobId: number; message: string };
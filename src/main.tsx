@@ -1,5 +1,14 @@
 import { createRoot } from "react-dom/client";
+import "./plugins";
 import App from "./App.tsx";
+import { installAnalytics } from "./lib/simulation/analytics";
+import { getBrowserStorage } from "./lib/simulation/persistence";
 import "./index.css";
 
+installAnalytics({
+  storage: getBrowserStorage(),
+  endpoint: import.meta.env.VITE_ANALYTICS_ENDPOINT,
+  console: import.meta.env.DEV,
+});
+
 createRoot(document.getElementById("root")!).render(<App />);
@@ -1,7 +1,19 @@
+import { useParams } from "react-router-dom";
 import PyrolysisSimulator from "@/components/PyrolysisSimulator";
+import GameErrorBoundary from "@/components/simulator/GameErrorBoundary";
+import { getStageRegistry } from "@/components/simulator/stages";
+import NotFound from "./NotFound";
 
 const Index = () => {
-  return <PyrolysisSimulator />;
+  const { stageId } = useParams();
+  if (stageId && !getStageRegistry().some(stage => stage.id === stageId)) {
+    return <NotFound />;
+  }
+  return (
+    <GameErrorBoundary>
+      <PyrolysisSimulator />
+    </GameErrorBoundary>
+  );
 };
 
 export default Index;
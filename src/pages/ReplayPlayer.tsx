@@ -0,0 +1,299 @@
+import { useEffect, useMemo, useRef, useState, type ChangeEvent } from "react";
+import { Link } from "react-router-dom";
+import { Film, Pause, Play, RotateCcw, Upload } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { exportClip, isWebmSupported } from "@/components/simulator/clipExport";
+import SimulatorStyles from "@/components/simulator/SimulatorStyles";
+import StageProgress from "@/components/simulator/StageProgress";
+import { getStageOrder, getStageRegistry } from "@/components/simulator/stages";
+import type { StageRegistration } from "@/components/simulator/types";
+import { CLIP_RESOLUTIONS, CLIP_SPEEDS, type ClipFormat, type ClipOptions } from "@/lib/simulation/clip";
+import type { SimulationState } from "@/lib/simulation/engine";
+import { createStageMachine, type StageMachine } from "@/lib/simulation/machine";
+import {
+  createReplayContext,
+  createReplayCursor,
+  loadReplay,
+  type ReplayContext,
+  type ReplayFile,
+} from "@/lib/simulation/replay";
+import { downloadBlob } from "@/lib/download";
+
+const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+const noop = () => {};
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+interface OptionButtonsProps<TValue> {
+  label: string;
+  options: { value: TValue; label: string; disabled?: boolean }[];
+  value: TValue;
+  onChange: (value: TValue) => void;
+  disabled?: boolean;
+}
+
+const OptionButtons = <TValue,>({ label, options, value, onChange, disabled }: OptionButtonsProps<TValue>) => (
+  <div role="group" aria-label={label} className="flex gap-1">
+    {options.map(option => (
+      <Button
+        key={option.label}
+        type="button"
+        size="sm"
+        variant={option.value === value ? "default" : "outline"}
+        onClick={() => onChange(option.value)}
+        aria-pressed={option.value === value}
+        disabled={disabled || option.disabled}
+      >
+        {option.label}
+      </Button>
+    ))}
+  </div>
+);
+
+interface ClipExportProps {
+  replay: ReplayFile;
+  context: ReplayContext;
+  machine: StageMachine<SimulationState, StageRegistration>;
+}
+
+/** Renders the replay to a WebM video or an animated GIF, in the browser. */
+const ClipExport = ({ replay, context, machine }: ClipExportProps) => {
+  const webm = isWebmSupported();
+  const [options, setOptions] = useState<ClipOptions>({ format: webm ? "webm" : "gif", resolution: "720p", speed: 4 });
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abort.current?.abort(), []);
+
+  const setOption = <TKey extends keyof ClipOptions>(key: TKey) => (value: ClipOptions[TKey]) =>
+    setOptions(current => ({ ...current, [key]: value }));
+
+  const start = async () => {
+    abort.current = new AbortController();
+    setError(null);
+    setProgress(0);
+    try {
+      const clip = await exportClip({
+        replay,
+        context,
+        options,
+        stageTitle: id => machine.get(id).title,
+        onProgress: setProgress,
+        signal: abort.current.signal,
+      });
+      downloadBlob(clip, `pyrolysis-replay-${replay.initial.seed}.${options.format}`);
+    } catch (exportError) {
+      if ((exportError as Error).name !== "AbortError") setError((exportError as Error).message);
+    } finally {
+      abort.current = null;
+      setProgress(null);
+    }
+  };
+
+  const exporting = progress !== null;
+  const formats: { value: ClipFormat; label: string; disabled?: boolean }[] = [
+    { value: "webm", label: "WebM video", disabled: !webm },
+    { value: "gif", label: "Animated GIF" },
+  ];
+
+  return (
+    <section aria-label="Export clip" className="flex flex-wrap items-center gap-3 rounded-lg border border-slate-700 bg-slate-900 p-3">
+      <span className="flex items-center gap-2 text-sm font-bold">
+        <Film className="w-4 h-4" /> Export clip
+      </span>
+      <OptionButtons label="Format" options={formats} value={options.format} onChange={setOption("format")} disabled={exporting} />
+      <OptionButtons
+        label="Resolution"
+        options={CLIP_RESOLUTIONS.map(({ id }) => ({ value: id, label: id }))}
+        value={options.resolution}
+        onChange={setOption("resolution")}
+        disabled={exporting}
+      />
+      <OptionButtons
+        label="Clip speed"
+        options={CLIP_SPEEDS.map(speed => ({ value: speed, label: `${speed}×` }))}
+        value={options.speed}
+        onChange={setOption("speed")}
+        disabled={exporting}
+      />
+      {exporting ? (
+        <>
+          <Progress value={progress * 100} className="w-40" aria-label="Export progress" />
+          <Button type="button" size="sm" variant="outline" onClick={() => abort.current?.abort()}>
+            Cancel
+          </Button>
+        </>
+      ) : (
+        <Button type="button" size="sm" onClick={start}>
+          Export
+        </Button>
+      )}
+      {error && <p className="w-full text-sm text-red-400">{error}</p>}
+    </section>
+  );
+};
+
+interface ReplayViewProps {
+  replay: ReplayFile;
+}
+
+const ReplayView = ({ replay }: ReplayViewProps) => {
+  const machine = useMemo(() => {
+    const registry = getStageRegistry();
+    return createStageMachine<SimulationState, StageRegistration>(registry, getStageOrder(registry, replay.initial.scenario.levels));
+  }, [replay]);
+  const context = useMemo(() => createReplayContext(machine), [machine]);
+  const cursor = useMemo(() => createReplayCursor(replay, context), [replay, context]);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame: number;
+    let last = performance.now();
+    const advance = (now: number) => {
+      const elapsed = (now - last) * speed;
+      last = now;
+      setPosition(current => Math.min(cursor.duration, current + elapsed));
+      frame = requestAnimationFrame(advance);
+    };
+    frame = requestAnimationFrame(advance);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, cursor]);
+
+  useEffect(() => {
+    if (position >= cursor.duration) setPlaying(false);
+  }, [position, cursor]);
+
+  const state = useMemo(() => cursor.seek(position), [cursor, position]);
+  const stage = machine.current(state);
+  const StageComponent = stage.component;
+
+  const togglePlaying = () => {
+    if (!playing && position >= cursor.duration) setPosition(0);
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 rounded-lg border border-slate-700 bg-slate-900 p-3">
+        <Button type="button" size="icon" variant="outline" onClick={togglePlaying} aria-label={playing ? "Pause" : "Play"}>
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <Button type="button" size="icon" variant="outline" onClick={() => setPosition(0)} aria-label="Restart">
+          <RotateCcw className="w-4 h-4" />
+        </Button>
+        <input
+          type="range"
+          min={0}
+          max={cursor.duration}
+          step={100}
+          value={position}
+          onChange={event => setPosition(event.target.valueAsNumber)}
+          aria-label="Replay position"
+          className="flex-1 min-w-40 accent-red-500"
+        />
+        <span className="font-mono text-sm tabular-nums">
+          {formatTime(position)} / {formatTime(cursor.duration)}
+        </span>
+        <OptionButtons
+          label="Playback speed"
+          options={REPLAY_SPEEDS.map(option => ({ value: option, label: `${option}×` }))}
+          value={speed}
+          onChange={setSpeed}
+        />
+      </div>
+
+      <ClipExport replay={replay} context={context} machine={machine} />
+
+      <p className="text-sm text-slate-400">
+        Seed {replay.initial.seed} · {replay.initial.scenario.title} · recorded {new Date(replay.recordedAt).toLocaleString()}
+      </p>
+
+      {/* Read-only: the screen follows the replay and ignores the viewer's input */}
+      <div className="relative pointer-events-none select-none rounded-lg border border-slate-700 overflow-hidden" aria-label="Replay">
+        {stage.isLevel && <StageProgress levels={machine.stages.filter(level => level.isLevel)} currentId={stage.id} />}
+        <StageComponent
+          state={state}
+          dispatch={noop}
+          title={stage.title}
+          level={machine.levelOf(stage.id)}
+          canAdvance={false}
+          onAdvance={noop}
+          onReset={noop}
+          retryLevels={[]}
+          onRetry={noop}
+        />
+      </div>
+    </div>
+  );
+};
+
+const ReplayPlayer = () => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [replay, setReplay] = useState<ReplayFile | null>(null);
+  // Remounts the view, so a newly opened file starts from the beginning
+  const [opened, setOpened] = useState(0);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const openReplay = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const result = loadReplay(await file.text(), getStageRegistry().map(stage => stage.id));
+    setErrors(result.errors);
+    if (!result.replay) return;
+    setReplay(result.replay);
+    setOpened(count => count + 1);
+  };
+
+  return (
+    <div className="dark min-h-screen bg-slate-950 text-white p-4 sm:p-8 space-y-6">
+      <SimulatorStyles />
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-black">Replay player</h1>
+          <p className="text-slate-400 text-sm">
+            Play back a run saved from the results screen, exactly as it was played.{" "}
+            <Link to="/" className="underline">
+              Back to the game
+            </Link>
+          </p>
+        </div>
+        <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={openReplay} aria-label="Replay file" />
+        <Button type="button" variant="outline" onClick={() => fileInput.current?.click()}>
+          <Upload className="w-4 h-4" /> Open replay
+        </Button>
+      </div>
+
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTitle>The replay file could not be loaded</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {errors.map(error => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {replay ? (
+        <ReplayView key={opened} replay={replay} />
+      ) : (
+        <p className="text-slate-400">Open a replay file to watch the run.</p>
+      )}
+    </div>
+  );
+};
+
+export default ReplayPlayer;
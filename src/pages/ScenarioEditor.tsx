@@ -0,0 +1,409 @@
+import { useRef, useState, type ChangeEvent } from "react";
+import { useForm, type Control, type FieldPath } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowDown, ArrowUp, Download, Play, RotateCcw, Upload } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { findUnknownLevels, getStageRegistry } from "@/components/simulator/stages";
+import { getFeedYields } from "@/lib/simulation/engine";
+import { getFeedstock, getPlasticShare, mixFromPlasticRatio } from "@/lib/simulation/feedstocks";
+import { clearActiveScenario, getBrowserStorage, loadActiveScenario, saveActiveScenario } from "@/lib/simulation/persistence";
+import { PRODUCTS } from "@/lib/simulation/products";
+import {
+  DEFAULT_SCENARIO,
+  loadScenario,
+  parseScenario,
+  scenarioSchema,
+  type Scenario,
+  type ScenarioInput,
+} from "@/lib/simulation/scenario";
+import { downloadJson } from "@/lib/download";
+
+type FieldName = FieldPath<ScenarioInput>;
+
+interface NumberFieldProps {
+  control: Control<ScenarioInput>;
+  name: FieldName;
+  label: string;
+  description?: string;
+  step?: number;
+  /** Empty input means "not set" rather than an invalid number. */
+  optional?: boolean;
+}
+
+const NumberField = ({ control, name, label, description, step = 1, optional }: NumberFieldProps) => (
+  <FormField
+    control={control}
+    name={name}
+    render={({ field }) => (
+      <FormItem>
+        <FormLabel>{label}</FormLabel>
+        <FormControl>
+          <Input
+            type="number"
+            step={step}
+            name={field.name}
+            ref={field.ref}
+            onBlur={field.onBlur}
+            value={typeof field.value === "number" && !Number.isNaN(field.value) ? field.value : ""}
+            onChange={event => {
+              const value = event.target.valueAsNumber;
+              field.onChange(optional && Number.isNaN(value) ? undefined : value);
+            }}
+          />
+        </FormControl>
+        {description && <FormDescription>{description}</FormDescription>}
+        <FormMessage />
+      </FormItem>
+    )}
+  />
+);
+
+const YIELD_FEEDSTOCKS = [
+  { id: "plastic", label: "Plastic" },
+  { id: "biomass", label: "Biomass" },
+] as const;
+
+const ScenarioEditor = () => {
+  const navigate = useNavigate();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const registryLevels = getStageRegistry().filter(stage => stage.isLevel);
+
+  const form = useForm<ScenarioInput, unknown, Scenario>({
+    resolver: zodResolver(scenarioSchema),
+    defaultValues: loadActiveScenario(getBrowserStorage()) ?? DEFAULT_SCENARIO,
+    mode: "onChange",
+  });
+
+  const values = form.watch();
+  const preview = parseScenario(values).scenario;
+  const previewMix = preview?.stages.feedstock.mix;
+  const previewPlastic = preview && (previewMix ? getPlasticShare(previewMix) : preview.stages.feedstock.plasticRatio);
+
+  // Enabled levels in play order, then the ones the scenario leaves out
+  const levels = values.levels ?? registryLevels.map(stage => stage.id);
+  const setLevels = (next: string[]) => form.setValue("levels", next, { shouldDirty: true, shouldValidate: true });
+  const moveLevel = (index: number, offset: number) => {
+    const next = [...levels];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setLevels(next);
+  };
+  const toggleLevel = (id: string, enabled: boolean) =>
+    setLevels(enabled ? [...levels, id] : levels.filter(level => level !== id));
+
+  const importScenario = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const { scenario, errors } = loadScenario(await file.text());
+    const unknownLevels = scenario ? findUnknownLevels(getStageRegistry(), scenario.levels) : [];
+    if (!scenario || unknownLevels.length > 0) {
+      setImportErrors(scenario ? unknownLevels.map(id => `levels: No stage called "${id}" is installed`) : errors);
+      return;
+    }
+    setImportErrors([]);
+    form.reset(scenario);
+  };
+
+  const exportScenario = (scenario: Scenario) => downloadJson(scenario, `${scenario.id}.json`);
+
+  const playScenario = (scenario: Scenario) => {
+    saveActiveScenario(getBrowserStorage(), scenario);
+    navigate("/");
+  };
+
+  const resetToStandard = () => {
+    clearActiveScenario(getBrowserStorage());
+    setImportErrors([]);
+    form.reset(DEFAULT_SCENARIO);
+  };
+
+  const yieldErrors = YIELD_FEEDSTOCKS.flatMap(
+    ({ id, label }) => {
+      const message = form.formState.errors.feedstocks?.[id]?.yields?.message;
+      return message ? [`${label}: ${message}`] : [];
+    },
+  );
+
+  return (
+    <div className="dark min-h-screen bg-background text-foreground">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(playScenario)} className="max-w-5xl mx-auto p-4 sm:p-8 space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold">Scenario Editor</h1>
+              <p className="text-muted-foreground text-sm">
+                Tune the mission, preview its yields and share it as a JSON file.{" "}
+                <Link to="/" className="underline">
+                  Back to the game
+                </Link>
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={importScenario} />
+              <Button type="button" variant="outline" onClick={() => fileInput.current?.click()}>
+                <Upload /> Import
+              </Button>
+              <Button type="button" variant="outline" onClick={form.handleSubmit(exportScenario)}>
+                <Download /> Export
+              </Button>
+              <Button type="button" variant="outline" onClick={resetToStandard}>
+                <RotateCcw /> Standard mission
+              </Button>
+              <Button type="submit">
+                <Play /> Play scenario
+              </Button>
+            </div>
+          </div>
+
+          {importErrors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTitle>The scenario file could not be loaded</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4">
+                  {importErrors.map(error => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Scenario</CardTitle>
+            </CardHeader>
+            <CardContent className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Title</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Id</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormDescription>Also used as the file name on export.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem className="sm:col-span-2">
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Feedstock yields</CardTitle>
+                <CardDescription>Mass fraction of each product from pure feedstock; each column adds up to 1.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="grid grid-cols-[1fr_6rem_6rem] gap-2 text-sm font-medium text-muted-foreground">
+                  <span>Product</span>
+                  {YIELD_FEEDSTOCKS.map(({ id, label }) => (
+                    <span key={id}>{label}</span>
+                  ))}
+                </div>
+                {PRODUCTS.map(product => (
+                  <div key={product.id} className="grid grid-cols-[1fr_6rem_6rem] gap-2 items-center">
+                    <span className="text-sm flex items-center gap-2">
+                      <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: product.color }} />
+                      {product.label}
+                    </span>
+                    {YIELD_FEEDSTOCKS.map(({ id }) => (
+                      <FormField
+                        key={id}
+                        control={form.control}
+                        name={`feedstocks.${id}.yields.${product.id}`}
+                        render={({ field }) => (
+                          <Input
+                            type="number"
+                            step={0.01}
+                            aria-label={`${product.label} from ${id}`}
+                            name={field.name}
+                            ref={field.ref}
+                            onBlur={field.onBlur}
+                            value={Number.isNaN(field.value) ? "" : field.value}
+                            onChange={event => field.onChange(event.target.valueAsNumber)}
+                          />
+                        )}
+                      />
+                    ))}
+                  </div>
+                ))}
+                <div className="grid grid-cols-[1fr_6rem_6rem] gap-2 text-sm font-medium border-t pt-2">
+                  <span>Total</span>
+                  {YIELD_FEEDSTOCKS.map(({ id }) => (
+                    <span key={id}>
+                      {Object.values(values.feedstocks?.[id]?.yields ?? {})
+                        .reduce((sum: number, value) => sum + (Number(value) || 0), 0)
+                        .toFixed(2)}
+                    </span>
+                  ))}
+                </div>
+                {yieldErrors.map(error => (
+                  <p key={error} className="text-sm font-medium text-destructive">
+                    {error}
+                  </p>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Expected yields</CardTitle>
+                <CardDescription>
+                  Ideal split at the default mix of {previewPlastic?.toFixed(0) ?? "–"}% plastic, before
+                  heating, sorting and cooling losses.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {preview ? (
+                  PRODUCTS.map(product => {
+                    const fraction = getFeedYields(previewMix ?? mixFromPlasticRatio(previewPlastic), preview)[product.id];
+                    return (
+                      <div key={product.id}>
+                        <div className="flex justify-between text-sm mb-1">
+                          <span>{product.label}</span>
+                          <span className="font-medium">{(fraction * 100).toFixed(1)}%</span>
+                        </div>
+                        <div className="h-2 bg-muted rounded-full overflow-hidden">
+                          <div className="h-full rounded-full" style={{ width: `${fraction * 100}%`, backgroundColor: product.color }} />
+                        </div>
+                      </div>
+                    );
+                  })
+                ) : (
+                  <p className="text-sm text-muted-foreground">Fix the highlighted fields to see the preview.</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Stage parameters</CardTitle>
+            </CardHeader>
+            <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <NumberField
+                control={form.control}
+                name="stages.feedstock.plasticRatio"
+                label="Default plastic share (%)"
+                description={
+                  previewMix && `Unused: the scenario starts from a mix of ${previewMix.map(({ id }) => getFeedstock(id).label).join(", ")}`
+                }
+              />
+              <NumberField control={form.control} name="stages.heating.gridSize" label="Reactor grid size" />
+              <NumberField control={form.control} name="stages.heating.threshold" label="Heat threshold (%)" />
+              <NumberField control={form.control} name="stages.heating.peakTemperature" label="Peak reactor temp (°C)" />
+              <NumberField control={form.control} name="stages.heating.residenceTime" label="Residence time (s)" />
+              <NumberField control={form.control} name="stages.sorting.productCount" label="Products to sort" />
+              <NumberField control={form.control} name="stages.sorting.spawnInterval" label="Spawn interval (s)" step={0.1} />
+              <NumberField control={form.control} name="stages.cooling.duration" label="Cooling duration (s)" />
+              <NumberField control={form.control} name="stages.cooling.initialGasTemp" label="Initial gas temp (°C)" />
+              <NumberField control={form.control} name="stages.cooling.optimalGasTemp" label="Optimal gas temp (°C)" />
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Stage order</CardTitle>
+                <CardDescription>Levels to play, in order. The briefing and results always frame the mission.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {[...levels, ...registryLevels.map(stage => stage.id).filter(id => !levels.includes(id))].map(id => {
+                  const index = levels.indexOf(id);
+                  const enabled = index !== -1;
+                  const stage = registryLevels.find(level => level.id === id);
+                  return (
+                    <div key={id} className="flex items-center gap-3 rounded-md border px-3 py-2">
+                      <Checkbox
+                        checked={enabled}
+                        onCheckedChange={checked => toggleLevel(id, checked === true)}
+                        aria-label={`Play ${stage?.title ?? id}`}
+                      />
+                      <span className={`flex-1 text-sm ${enabled ? "" : "text-muted-foreground line-through"}`}>
+                        {enabled && `${index + 1}. `}
+                        {stage?.title ?? id}
+                      </span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        disabled={!enabled || index === 0}
+                        onClick={() => moveLevel(index, -1)}
+                        aria-label="Move up"
+                      >
+                        <ArrowUp />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        disabled={!enabled || index === levels.length - 1}
+                        onClick={() => moveLevel(index, 1)}
+                        aria-label="Move down"
+                      >
+                        <ArrowDown />
+                      </Button>
+                    </div>
+                  );
+                })}
+                <FormField control={form.control} name="levels" render={() => <FormMessage />} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Targets</CardTitle>
+                <CardDescription>Scores the results screen grades a run against. Leave empty for no target.</CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 sm:grid-cols-2">
+                <NumberField control={form.control} name="targets.overallEfficiency" label="Overall efficiency (%)" optional />
+                <NumberField control={form.control} name="targets.sortingRecovery" label="Sorting accuracy (%)" optional />
+                <NumberField control={form.control} name="targets.condensationQuality" label="Condensation quality (%)" optional />
+                <NumberField control={form.control} name="targets.productValue" label="Product value ($/t)" optional />
+              </CardContent>
+            </Card>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+};
+
+export default ScenarioEditor;
@@ -0,0 +1,131 @@
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import SimulatorStyles from "@/components/simulator/SimulatorStyles";
+import { getStageRegistry } from "@/components/simulator/stages";
+import type { StageRegistration } from "@/components/simulator/types";
+import { createInitialState, type SimulationState } from "@/lib/simulation/engine";
+import { STATE_FIXTURES, type StateFixture } from "@/lib/simulation/fixtures";
+import { createStageMachine } from "@/lib/simulation/machine";
+import { applyInput, createReplayContext, type ReplayContext } from "@/lib/simulation/replay";
+
+// Stage screens are laid out for a full browser window; previews render them at
+// this size and scale the result down.
+const FRAME_WIDTH = 1280;
+const FRAME_HEIGHT = 800;
+const THUMBNAIL_SCALE = 0.3;
+
+const noop = () => {};
+
+/** Stages without fixtures of their own (plugin stages, usually) are shown entered from a fresh run. */
+const entryFixture = (stage: StageRegistration): StateFixture => ({
+  id: `${stage.id}-entered`,
+  stage: stage.id,
+  title: "Entered from a fresh run",
+  create: () => ({ ...createInitialState(42), stage: stage.id }),
+});
+
+interface StagePreviewProps {
+  fixture: StateFixture;
+  stage: StageRegistration;
+  level: number | null;
+  scale: number;
+  context: ReplayContext;
+}
+
+const StagePreview = ({ fixture, stage, level, scale, context }: StagePreviewProps) => {
+  // Each preview owns its state, so controls on the screen still respond
+  const [state, setState] = useState<SimulationState>(fixture.create);
+  const StageComponent = stage.component;
+  return (
+    <div className="relative overflow-hidden rounded-lg border border-slate-700" style={{ width: FRAME_WIDTH * scale, height: FRAME_HEIGHT * scale }}>
+      {/* The transform also contains the screens' `fixed` elements inside the frame */}
+      <div
+        className="absolute left-0 top-0 overflow-auto bg-slate-950 text-white"
+        style={{ width: FRAME_WIDTH, height: FRAME_HEIGHT, transform: `scale(${scale})`, transformOrigin: "top left" }}
+      >
+        <StageComponent
+          state={state}
+          dispatch={input => setState(s => applyInput(s, input, context))}
+          title={stage.title}
+          level={level}
+          canAdvance={stage.next !== null && (stage.canComplete?.(state) ?? true)}
+          onAdvance={noop}
+          onReset={() => setState(fixture.create())}
+          retryLevels={[]}
+          onRetry={noop}
+        />
+      </div>
+    </div>
+  );
+};
+
+const StageGallery = () => {
+  const [searchParams] = useSearchParams();
+  const machine = useMemo(() => createStageMachine<SimulationState, StageRegistration>(getStageRegistry()), []);
+  const context = useMemo(() => createReplayContext(machine), [machine]);
+  const sections = machine.stages.map(stage => {
+    const fixtures = STATE_FIXTURES.filter(fixture => fixture.stage === stage.id);
+    return { stage, fixtures: fixtures.length > 0 ? fixtures : [entryFixture(stage)] };
+  });
+
+  const focused = searchParams.get("fixture");
+  const focusedFixture = sections.flatMap(section => section.fixtures).find(fixture => fixture.id === focused);
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white p-4 sm:p-8">
+      <SimulatorStyles />
+      {focusedFixture ? (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-400">
+            <Link to="/dev/stages" className="underline">
+              All stages
+            </Link>{" "}
+            / {machine.get(focusedFixture.stage).title} / {focusedFixture.title}
+          </p>
+          <StagePreview
+            key={focusedFixture.id}
+            fixture={focusedFixture}
+            stage={machine.get(focusedFixture.stage)}
+            level={machine.levelOf(focusedFixture.stage)}
+            scale={1}
+            context={context}
+          />
+        </div>
+      ) : (
+        <div className="space-y-10">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-black">Stage gallery</h1>
+            <p className="text-slate-400 text-sm">Every stage screen against its fixture states. Open one to see it full size.</p>
+          </div>
+          {sections.map(({ stage, fixtures }) => (
+            <section key={stage.id} aria-label={stage.title}>
+              <h2 className="text-lg font-bold mb-3">
+                {stage.title} <span className="text-slate-500 text-sm font-mono">/{stage.id}</span>
+              </h2>
+              <div className="flex flex-wrap gap-6">
+                {fixtures.map(fixture => (
+                  <figure key={fixture.id} className="space-y-2">
+                    <StagePreview
+                      fixture={fixture}
+                      stage={stage}
+                      level={machine.levelOf(stage.id)}
+                      scale={THUMBNAIL_SCALE}
+                      context={context}
+                    />
+                    <figcaption className="text-sm">
+                      <Link to={`?fixture=${fixture.id}`} className="hover:text-red-400 underline-offset-2 hover:underline">
+                        {fixture.title}
+                      </Link>
+                    </figcaption>
+                  </figure>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StageGallery;
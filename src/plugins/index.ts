@@ -0,0 +1,6 @@
+// Stage plugins enabled in this build. Each plugin module registers itself
+// with `registerStagePlugin` from `@/components/simulator/plugins`; import it
+// here so it is in place before the simulator mounts, e.g.
+//
+//   import "./shredding";
+export {};
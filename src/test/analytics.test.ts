@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  ANALYTICS_CONSENT_KEY,
+  ANALYTICS_LOG_KEY,
+  createAnalytics,
+  createBeaconSink,
+  createStorageSink,
+  loadAnalyticsConsent,
+  readStoredEvents,
+  saveAnalyticsConsent,
+  type AnalyticsEvent,
+  type AnalyticsSink,
+} from "@/lib/simulation/analytics";
+import { mixFromPlasticRatio } from "@/lib/simulation/feedstocks";
+
+const collect = (): AnalyticsSink & { events: AnalyticsEvent[] } => {
+  const events: AnalyticsEvent[] = [];
+  return { id: "collect", events, send: event => void events.push(event) };
+};
+
+describe("analytics", () => {
+  it("only sends events while the player consents", () => {
+    const sink = collect();
+    const bus = createAnalytics({ session: "s1", now: () => 7 });
+    bus.addSink(sink);
+
+    bus.track("cellHeated", { row: 1, col: 2, heat: 50 });
+    bus.setConsent(true);
+    bus.track("productDropped", { product: "wax", bin: "tar", correct: false });
+    bus.setConsent(false);
+    bus.track("coolingPowerChanged", { power: 40 });
+
+    expect(sink.events).toEqual([
+      { name: "productDropped", data: { product: "wax", bin: "tar", correct: false }, at: 7, session: "s1" },
+    ]);
+  });
+
+  it("keeps other sinks going when one throws, and rejects duplicate sinks", () => {
+    const sink = collect();
+    const bus = createAnalytics({ consent: true });
+    bus.addSink({
+      id: "broken",
+      send: () => {
+        throw new Error("offline");
+      },
+    });
+    const remove = bus.addSink(sink);
+    expect(() => bus.addSink(collect())).toThrow('Analytics sink "collect" is already added');
+
+    bus.track("levelRetried", { stage: "heating" });
+    remove();
+    bus.track("levelRetried", { stage: "cooling" });
+    expect(sink.events.map(event => event.data)).toEqual([{ stage: "heating" }]);
+  });
+
+  it("keeps the most recent events in storage, written on flush", () => {
+    const bus = createAnalytics({ consent: true });
+    bus.addSink(createStorageSink(localStorage, 2));
+    for (const power of [10, 20, 30]) bus.track("coolingPowerChanged", { power });
+    expect(readStoredEvents(localStorage)).toEqual([]);
+    bus.flush();
+    expect(readStoredEvents(localStorage).map(event => event.data)).toEqual([{ power: 20 }, { power: 30 }]);
+
+    // A later page load appends to the stored log
+    const next = createAnalytics({ consent: true });
+    next.addSink(createStorageSink(localStorage, 2));
+    next.track("coolingPowerChanged", { power: 40 });
+    next.flush();
+    expect(readStoredEvents(localStorage).map(event => event.data)).toEqual([{ power: 30 }, { power: 40 }]);
+    localStorage.clear();
+  });
+
+  it("sends beacons in batches, after a delay or when flushed", () => {
+    vi.useFakeTimers();
+    const sendBeacon = vi.fn((url: string, body: string) => true);
+    const bus = createAnalytics({ consent: true });
+    bus.addSink(createBeaconSink({ endpoint: "/collect", batchSize: 2, maxDelay: 1000, sendBeacon }));
+
+    bus.track("feedstockChanged", { plasticRatio: 60, mix: mixFromPlasticRatio(60) });
+    bus.track("feedstockChanged", { plasticRatio: 70, mix: mixFromPlasticRatio(70) });
+    expect(sendBeacon).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(sendBeacon.mock.calls[0][1]).events).toHaveLength(2);
+
+    bus.track("feedstockChanged", { plasticRatio: 80, mix: mixFromPlasticRatio(80) });
+    vi.advanceTimersByTime(1000);
+    expect(sendBeacon).toHaveBeenCalledTimes(2);
+
+    bus.track("feedstockChanged", { plasticRatio: 90, mix: mixFromPlasticRatio(90) });
+    bus.setConsent(false);
+    vi.advanceTimersByTime(1000);
+    bus.flush();
+    expect(sendBeacon).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+
+  it("forgets the collected events when consent is withdrawn", () => {
+    const bus = createAnalytics({ consent: true });
+    bus.addSink(createStorageSink(localStorage));
+    bus.track("coolingPowerChanged", { power: 10 });
+    bus.flush();
+    bus.track("coolingPowerChanged", { power: 20 });
+
+    bus.setConsent(false);
+    bus.flush();
+    expect(localStorage.getItem(ANALYTICS_LOG_KEY)).toBeNull();
+
+    bus.setConsent(true);
+    bus.track("coolingPowerChanged", { power: 30 });
+    bus.flush();
+    expect(readStoredEvents(localStorage).map(event => event.data)).toEqual([{ power: 30 }]);
+    localStorage.clear();
+  });
+
+  it("treats consent as opt-in", () => {
+    expect(loadAnalyticsConsent(localStorage)).toBe(false);
+    saveAnalyticsConsent(localStorage, true);
+    expect(localStorage.getItem(ANALYTICS_CONSENT_KEY)).toBe("granted");
+    expect(loadAnalyticsConsent(localStorage)).toBe(true);
+    saveAnalyticsConsent(localStorage, false);
+    expect(loadAnalyticsConsent(localStorage)).toBe(false);
+    localStorage.clear();
+  });
+});
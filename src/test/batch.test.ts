@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { runBatch, runScenario, type RunScenario } from "@/lib/simulation/batch";
+import { scenarioSchema } from "@/lib/simulation/scenario";
+
+const scenario = (overrides: Partial<RunScenario> = {}): RunScenario => ({
+  plasticRatio: 50,
+  heat: 100,
+  coolingPower: 10,
+  ...overrides,
+});
+
+describe("batch runs", () => {
+  it("plays a whole mission headlessly", () => {
+    const results = runScenario(scenario());
+    expect(results.heatMetrics.completeness).toBe(100);
+    expect(results.sortingRecovery).toBe(100);
+    expect(results.yields.liquidFuel).toBeGreaterThan(0);
+  });
+
+  it("reflects sorting mistakes and cooling control in the results", () => {
+    expect(runScenario(scenario({ sortingLosses: 3 })).processLoss).toBeCloseTo(20);
+    const gentle = runScenario(scenario({ coolingPower: 2 }));
+    const harsh = runScenario(scenario({ coolingPower: 100 }));
+    expect(gentle.condensationQuality).toBeGreaterThan(harsh.condensationQuality);
+  });
+
+  it("only plays the levels the run's scenario selects", () => {
+    const heatingOnly = scenarioSchema.parse({ version: 1, id: "hot", title: "Hot", levels: ["heating"] });
+    const results = runScenario(scenario({ scenario: heatingOnly }));
+    expect(runScenario(scenario({ scenario: heatingOnly, plasticRatio: 20, sortingLosses: 3, coolingPower: 100 }))).toEqual(
+      results,
+    );
+    expect(results.heatMetrics.completeness).toBe(100);
+    expect(runScenario(scenario({ scenario: heatingOnly, heat: 0 })).heatMetrics.completeness).toBe(0);
+  });
+
+  it("reports progress and stops when cancelled", async () => {
+    const scenarios = Array.from({ length: 6 }, (_, i) => scenario({ id: `mix-${i}`, plasticRatio: i * 20 }));
+    const progress: number[] = [];
+    const results = await runBatch(scenarios, { chunkSize: 2, onProgress: completed => progress.push(completed) });
+    expect(progress).toEqual([2, 4, 6]);
+    expect(results?.map(result => result.id)).toEqual(scenarios.map(s => s.id));
+
+    let calls = 0;
+    const cancelled = await runBatch(scenarios, { chunkSize: 2, isCancelled: () => ++calls > 1 });
+    expect(cancelled).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  BUNDLED_CATALOG,
+  cacheCatalog,
+  fetchCatalog,
+  loadCachedCatalog,
+  parseCatalog,
+} from "@/lib/simulation/catalog";
+import { getPlasticShare } from "@/lib/simulation/feedstocks";
+import type { RunStorage } from "@/lib/simulation/persistence";
+
+const createMemoryStorage = (): RunStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: key => void items.delete(key),
+  };
+};
+
+const respond = (status: number, body: string): typeof fetch => async () => new Response(body, { status });
+
+const LEVELS = ["feedstock", "heating", "sorting", "cooling"];
+
+const SCHOOL_CATALOG = {
+  version: 1,
+  title: "Riverside High",
+  scenarios: [
+    { version: 1, id: "lab-1", title: "Lab 1", difficulty: "easy" },
+    { version: 1, id: "lab-2", stages: { sorting: { productCount: 0 } } },
+    { version: 1, id: "lab-3", title: "Lab 3", levels: ["heating", "melting"] },
+  ],
+};
+
+describe("scenario catalogs", () => {
+  it("bundles a library of distinct, described scenarios", () => {
+    const ids = BUNDLED_CATALOG.scenarios.map(scenario => scenario.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toContain("municipal-plastics");
+    expect(ids).toContain("agricultural-residue");
+    for (const scenario of BUNDLED_CATALOG.scenarios) {
+      expect(scenario.description).not.toBe("");
+      expect(scenario.difficulty).toBeDefined();
+    }
+  });
+
+  it("starts the municipal mission on the plastics and paper it describes", () => {
+    const municipal = BUNDLED_CATALOG.scenarios.find(scenario => scenario.id === "municipal-plastics");
+    const mix = municipal?.stages.feedstock.mix ?? [];
+    expect(mix.map(component => component.id)).toContain("paper");
+    expect(getPlasticShare(mix)).toBe(municipal?.stages.feedstock.plasticRatio);
+  });
+
+  it("keeps the valid entries of a catalog and reports the others", () => {
+    const { catalog, errors } = parseCatalog(SCHOOL_CATALOG, LEVELS);
+    expect(catalog?.title).toBe("Riverside High");
+    expect(catalog?.scenarios.map(scenario => scenario.id)).toEqual(["lab-1"]);
+    expect(errors).toContain("scenarios.1.title: Required");
+    expect(errors).toContainEqual(expect.stringMatching(/^scenarios\.1\.stages\.sorting\.productCount: /));
+    expect(errors).toContain('scenarios.2.levels: No stage called "melting" is installed');
+
+    expect(parseCatalog({ version: 2, scenarios: [] }, LEVELS).catalog).toBeNull();
+  });
+
+  it("rejects catalog requests that fail or return nothing usable", async () => {
+    const { catalog } = await fetchCatalog("/catalog.json", LEVELS, respond(200, JSON.stringify(SCHOOL_CATALOG)));
+    expect(catalog?.scenarios).toHaveLength(1);
+    await expect(fetchCatalog("/catalog.json", LEVELS, respond(404, "Not found"))).rejects.toThrow("Catalog request failed (404)");
+    await expect(fetchCatalog("/catalog.json", LEVELS, respond(200, "<html>"))).rejects.toThrow(/^Catalog is not valid JSON/);
+    await expect(
+      fetchCatalog("/catalog.json", LEVELS, respond(200, JSON.stringify({ version: 1, scenarios: [{ version: 1 }] }))),
+    ).rejects.toThrow("scenarios.0.title: Required");
+  });
+
+  it("keeps the last catalog fetched from each URL for offline use", () => {
+    const storage = createMemoryStorage();
+    const { catalog } = parseCatalog(SCHOOL_CATALOG, LEVELS);
+    cacheCatalog(storage, "https://school.example/a.json", catalog);
+    expect(loadCachedCatalog(storage, "https://school.example/a.json", LEVELS)).toEqual(catalog);
+    expect(loadCachedCatalog(storage, "https://school.example/b.json", LEVELS)).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  DECHLORINATION_EFFICIENCY,
+  FUEL_CHLORINE_LIMIT,
+  getChlorineRelease,
+  getChlorineReport,
+  getMixChlorine,
+  getPenaltyTotal,
+} from "@/lib/simulation/chlorine";
+import { computeResults, createInitialState, setDechlorination, setFeed, type SimulationState } from "@/lib/simulation/engine";
+import type { FeedMix } from "@/lib/simulation/feedstocks";
+import { DEFAULT_SCENARIO } from "@/lib/simulation/scenario";
+
+const uniformGrid = (heat: number) => Array.from({ length: 10 }, () => Array<number>(10).fill(heat));
+
+const plastics = (pvc: number): FeedMix => [
+  { id: "pe", share: 100 - pvc },
+  ...(pvc > 0 ? [{ id: "pvc" as const, share: pvc }] : []),
+];
+
+const finished = (mix: FeedMix, dechlorination = false): SimulationState => {
+  const state = setDechlorination(setFeed(createInitialState(1), mix), dechlorination);
+  return {
+    ...state,
+    heatGrid: uniformGrid(100),
+    cooling: { ...state.cooling, gasTemp: DEFAULT_SCENARIO.stages.cooling.optimalGasTemp },
+  };
+};
+
+describe("chlorine", () => {
+  it("comes in with PVC, on an as-received basis", () => {
+    expect(getMixChlorine([{ id: "pvc", share: 100 }])).toBeCloseTo(56.47, 2);
+    expect(getMixChlorine(plastics(0))).toBe(0);
+    expect(getMixChlorine(plastics(10))).toBeCloseTo(5.647, 3);
+  });
+
+  it("is driven off as HCl once the reactor passes 250 °C", () => {
+    expect(getChlorineRelease(uniformGrid(0), DEFAULT_SCENARIO)).toBeCloseTo(0);
+    // 100 heat is 500 °C, 50 heat is about 260 °C
+    expect(getChlorineRelease(uniformGrid(50), DEFAULT_SCENARIO)).toBeGreaterThan(0.4);
+    expect(getChlorineRelease(uniformGrid(100), DEFAULT_SCENARIO)).toBeCloseTo(1);
+  });
+
+  it("taints the fuel and corrodes the plant without dechlorination", () => {
+    const report = getChlorineReport(finished(plastics(3)), 50);
+    expect(report.hclReleased).toBeCloseTo(0.03 * 56.47 * (36.46 / 35.45) * 10, 1);
+    expect(report.fuelChlorine).toBeGreaterThan(FUEL_CHLORINE_LIMIT * 10);
+    expect(report.fuelQuality).toBeLessThan(100);
+    expect(report.corrosion).toBe(100);
+    expect(report.penalties.dechlorination).toBe(0);
+  });
+
+  it("strips most of the HCl out with dechlorination, at a cost", () => {
+    const raw = getChlorineReport(finished(plastics(1)), 50);
+    const treated = getChlorineReport(finished(plastics(1), true), 50);
+    expect(treated.hclCaptured).toBeCloseTo(treated.hclReleased * DECHLORINATION_EFFICIENCY);
+    expect(treated.fuelChlorine).toBeCloseTo(raw.fuelChlorine * (1 - DECHLORINATION_EFFICIENCY));
+    expect(treated.fuelChlorine).toBeLessThan(FUEL_CHLORINE_LIMIT);
+    expect(treated.penalties.dechlorination).toBeGreaterThan(0);
+    expect(getPenaltyTotal(treated)).toBeLessThan(getPenaltyTotal(raw));
+  });
+
+  it("dilutes into the fuel the reactor actually made", () => {
+    const underheated = { ...finished(plastics(1)), heatGrid: uniformGrid(60) };
+    const results = computeResults(underheated);
+    expect(results.yields.liquidFuel).toBeLessThan(computeResults(finished(plastics(1))).yields.liquidFuel);
+    expect(results.chlorine).toEqual(getChlorineReport(underheated, results.yields.liquidFuel));
+  });
+
+  it("takes its penalties off the product value", () => {
+    const clean = computeResults(finished(plastics(0)));
+    const contaminated = computeResults(finished(plastics(1)));
+    const dechlorinated = computeResults(finished(plastics(1), true));
+    expect(getPenaltyTotal(clean.chlorine)).toBe(0);
+    expect(contaminated.productValue).toBeLessThan(clean.productValue - 50);
+    expect(dechlorinated.productValue).toBeGreaterThan(contaminated.productValue);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { createGifEncoder, GIF_PALETTE, quantize } from "@/lib/gif";
+import { CLIP_FRAME_RATES, createClipFrames, getClipFrameCount } from "@/lib/simulation/clip";
+import { createInitialState, setStage, type SimulationState } from "@/lib/simulation/engine";
+import { createStageMachine } from "@/lib/simulation/machine";
+import { createRecorder, createReplayContext, getReplayDuration } from "@/lib/simulation/replay";
+import { STAGE_REGISTRY } from "@/components/simulator/stages";
+import type { StageRegistration } from "@/components/simulator/types";
+
+/** Reads the frames of a GIF written by the encoder back into palette indices. */
+const decodeGif = (gif: Uint8Array) => {
+  const width = gif[6] | (gif[7] << 8);
+  const height = gif[8] | (gif[9] << 8);
+  const frames: { delay: number; indices: number[] }[] = [];
+  let offset = 13 + 256 * 3;
+  let delay = 0;
+  while (gif[offset] !== 0x3b) {
+    if (gif[offset] === 0x21) {
+      if (gif[offset + 1] === 0xf9) delay = (gif[offset + 4] | (gif[offset + 5] << 8)) * 10;
+      offset += 2;
+      while (gif[offset] !== 0) offset += gif[offset] + 1;
+      offset++;
+      continue;
+    }
+    expect(gif[offset]).toBe(0x2c);
+    const minCodeSize = gif[offset + 10];
+    offset += 11;
+    const data: number[] = [];
+    while (gif[offset] !== 0) {
+      data.push(...gif.subarray(offset + 1, offset + 1 + gif[offset]));
+      offset += gif[offset] + 1;
+    }
+    offset++;
+    frames.push({ delay, indices: decodeLzw(data, minCodeSize) });
+  }
+  return { width, height, frames };
+};
+
+const decodeLzw = (data: number[], minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const output: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bitOffset = 0;
+  for (;;) {
+    let code = 0;
+    for (let bit = 0; bit < codeSize; bit++, bitOffset++) {
+      code |= ((data[bitOffset >> 3] >> (bitOffset & 7)) & 1) << bit;
+    }
+    if (code === clearCode) {
+      table = Array.from({ length: clearCode + 2 }, (_, index) => [index]);
+      codeSize = minCodeSize + 1;
+      previous = null;
+      continue;
+    }
+    if (code === clearCode + 1) return output;
+    const entry = code < table.length ? table[code] : [...previous, previous[0]];
+    if (previous && table.length < 4096) table.push([...previous, entry[0]]);
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    output.push(...entry);
+    previous = entry;
+  }
+};
+
+const rgbaOf = (indices: number[]) =>
+  new Uint8Array(indices.flatMap(index => [...GIF_PALETTE.subarray(index * 3, index * 3 + 3), 255]));
+
+describe("GIF encoder", () => {
+  it("maps colours onto the nearest palette entry", () => {
+    const [black, white, red] = quantize(new Uint8Array([0, 0, 0, 255, 255, 255, 255, 255, 250, 10, 5, 255]));
+    expect(GIF_PALETTE.subarray(black * 3, black * 3 + 3)).toEqual(new Uint8Array([0, 0, 0]));
+    expect(GIF_PALETTE.subarray(white * 3, white * 3 + 3)).toEqual(new Uint8Array([255, 255, 255]));
+    expect(GIF_PALETTE.subarray(red * 3, red * 3 + 3)).toEqual(new Uint8Array([255, 0, 0]));
+  });
+
+  it("writes frames that decode back to the same pixels", () => {
+    const width = 90;
+    const height = 70;
+    // Noise fills the LZW table several times over; flat colour barely uses it
+    let seed = 1;
+    const noise = Array.from({ length: width * height }, () => (seed = (seed * 48271) % 2147483647) % 252);
+    const flat = Array.from({ length: width * height }, (_, index) => (index < 3000 ? 17 : 200));
+    const encoder = createGifEncoder(width, height);
+    encoder.addFrame(rgbaOf(noise), 100);
+    encoder.addFrame(rgbaOf(flat), 250);
+    const gif = encoder.finish();
+
+    expect(new TextDecoder().decode(gif.subarray(0, 6))).toBe("GIF89a");
+    const decoded = decodeGif(gif);
+    expect(decoded).toMatchObject({ width, height });
+    expect(decoded.frames.map(frame => frame.delay)).toEqual([100, 250]);
+    expect(decoded.frames[0].indices).toEqual(noise);
+    expect(decoded.frames[1].indices).toEqual(flat);
+  });
+
+  it("rejects frames of the wrong size", () => {
+    expect(() => createGifEncoder(4, 4).addFrame(new Uint8Array(4 * 3 * 4), 100)).toThrow("Frame must be 4×4 RGBA pixels");
+  });
+});
+
+describe("clip frames", () => {
+  const context = createReplayContext(createStageMachine<SimulationState, StageRegistration>(STAGE_REGISTRY));
+
+  const recordCooling = () => {
+    let time = 0;
+    const recorder = createRecorder(() => time);
+    recorder.start(setStage(createInitialState(5), "cooling"));
+    recorder.record({ type: "startCooling" });
+    for (let i = 1; i <= 40; i++) {
+      time = i * 100;
+      recorder.record({ type: "tick", count: 1, duration: 0 });
+    }
+    return recorder.toFile();
+  };
+
+  it("samples the replay at the clip's frame rate, sped up", () => {
+    const replay = recordCooling();
+    const frames = [...createClipFrames(replay, context, { format: "gif", speed: 2 })];
+
+    expect(getReplayDuration(replay)).toBe(4000);
+    expect(frames).toHaveLength(getClipFrameCount(4000, { format: "gif", speed: 2 }));
+    expect(frames).toHaveLength(2 * CLIP_FRAME_RATES.gif + 1);
+    expect(frames[1].at).toBe(200);
+    expect(frames[frames.length - 1].at).toBe(4000);
+  });
+
+  it("carry the cooling trace so far", () => {
+    const frames = [...createClipFrames(recordCooling(), context, { format: "gif", speed: 1 })];
+    const last = frames[frames.length - 1];
+
+    expect(last.coolingTrace).toHaveLength(frames.length);
+    expect(last.coolingTrace[last.coolingTrace.length - 1]).toEqual({
+      time: last.state.cooling.time,
+      gasTemp: last.state.cooling.gasTemp,
+    });
+    expect(last.coolingTrace[0].gasTemp).toBeGreaterThan(last.state.cooling.gasTemp);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { createGameClock } from "@/lib/simulation/clock";
+
+const manualFrames = () => {
+  let pending: ((now: number) => void) | null = null;
+  return {
+    requestFrame: (callback: (now: number) => void) => {
+      pending = callback;
+      return 1;
+    },
+    cancelFrame: () => {
+      pending = null;
+    },
+    frame: (now: number) => pending?.(now),
+  };
+};
+
+describe("game clock", () => {
+  it("feeds subscribers fixed timesteps scaled by speed", () => {
+    const frames = manualFrames();
+    const clock = createGameClock({ timestep: 0.1, ...frames });
+    const ticks: number[] = [];
+    clock.subscribe(dt => ticks.push(dt));
+
+    frames.frame(0);
+    frames.frame(250);
+    expect(ticks).toEqual([0.1, 0.1]);
+
+    clock.setSpeed(2);
+    frames.frame(350);
+    expect(ticks).toHaveLength(4);
+  });
+
+  it("stops ticking while paused", () => {
+    const frames = manualFrames();
+    const clock = createGameClock({ timestep: 0.1, ...frames });
+    let ticks = 0;
+    clock.subscribe(() => ticks++);
+
+    frames.frame(0);
+    clock.pause();
+    frames.frame(1000);
+    expect(ticks).toBe(0);
+    expect(clock.getStatus().paused).toBe(true);
+
+    clock.resume();
+    frames.frame(2000);
+    frames.frame(2100);
+    expect(ticks).toBe(1);
+  });
+});
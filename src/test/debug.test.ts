@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { completeStagesBefore, fastForward } from "@/lib/simulation/debug";
+import {
+  COOLING_TICK,
+  createInitialState,
+  isCoolingRunning,
+  setStage,
+  startCooling,
+  step,
+  type SimulationState,
+} from "@/lib/simulation/engine";
+import { createStageMachine } from "@/lib/simulation/machine";
+import { STAGE_REGISTRY } from "@/components/simulator/stages";
+import type { StageRegistration } from "@/components/simulator/types";
+
+const machine = createStageMachine<SimulationState, StageRegistration>(STAGE_REGISTRY);
+
+describe("debug shortcuts", () => {
+  it("completes the stages before the target so it can be entered", () => {
+    const state = createInitialState(4);
+    expect(machine.canEnter(state, "cooling")).toBe(false);
+
+    const synthetic = completeStagesBefore(machine, state, "cooling");
+    expect(synthetic.stage).toBe("landing");
+    expect(machine.canEnter(synthetic, "cooling")).toBe(true);
+    expect(synthetic.sorting.losses).toBe(0);
+    expect(synthetic.cooling.started).toBe(false);
+  });
+
+  it("leaves stages that are already complete alone", () => {
+    const state = { ...createInitialState(4), heatGrid: createInitialState(4).heatGrid.map(row => row.map(() => 80)) };
+    expect(completeStagesBefore(machine, state, "sorting").heatGrid).toBe(state.heatGrid);
+  });
+
+  it("fast-forwards a timer in fixed ticks and stops when it runs out", () => {
+    const cooling = startCooling(setStage(createInitialState(2), "cooling"));
+    const tick = (state: SimulationState, dt: number) => step(state, { coolingPower: 50 }, dt);
+
+    expect(fastForward(cooling, 5, tick, isCoolingRunning).cooling.time).toBeCloseTo(5);
+    const done = fastForward(cooling, 1000, tick, isCoolingRunning);
+    expect(done.cooling.time).toBeCloseTo(cooling.scenario.stages.cooling.duration);
+    expect(done.cooling.time).toBeLessThan(cooling.scenario.stages.cooling.duration + COOLING_TICK);
+  });
+});
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { MemoryRouter, useLocation } from "react-router-dom";
+import GameErrorBoundary from "@/components/simulator/GameErrorBoundary";
+import { createInitialState, setStage } from "@/lib/simulation/engine";
+import { buildDiagnosticReport, createEventLog } from "@/lib/simulation/diagnostics";
+import { loadActiveScenario, loadRun, saveActiveScenario, saveRun } from "@/lib/simulation/persistence";
+import { DEFAULT_SCENARIO } from "@/lib/simulation/scenario";
+
+describe("diagnostics", () => {
+  it("keeps only the most recent events, oldest first", () => {
+    let clock = 0;
+    const log = createEventLog(3, () => clock++);
+    ["a", "b", "c", "d", "e"].forEach(type => log.record(type));
+    expect(log.entries().map(event => event.type)).toEqual(["c", "d", "e"]);
+    expect(log.entries()[0].at).toBe(2);
+    log.clear();
+    expect(log.entries()).toEqual([]);
+  });
+
+  it("builds a report around the last good snapshot", () => {
+    const snapshot = createInitialState(77);
+    const report = buildDiagnosticReport({
+      error: new Error("boom"),
+      snapshot,
+      events: [{ at: 1, type: "reset" }],
+      now: new Date(0),
+    });
+    expect(report.seed).toBe(77);
+    expect(report.error?.message).toBe("boom");
+    expect(report.generatedAt).toBe("1970-01-01T00:00:00.000Z");
+    expect(JSON.parse(JSON.stringify(report)).snapshot).toEqual(snapshot);
+  });
+});
+
+describe("game error boundary", () => {
+  let shouldThrow = true;
+  const Flaky = () => {
+    const { pathname } = useLocation();
+    if (shouldThrow) throw new Error("bad render");
+    return <p>mission running at {pathname}</p>;
+  };
+
+  beforeEach(() => {
+    shouldThrow = true;
+    localStorage.clear();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it("replaces a crashed game with a recovery screen and restores the last save", () => {
+    saveRun(localStorage, setStage(createInitialState(4), "sorting"));
+    render(
+      <MemoryRouter>
+        <GameErrorBoundary>
+          <Flaky />
+        </GameErrorBoundary>
+      </MemoryRouter>,
+    );
+    expect(screen.getByText("REACTOR MALFUNCTION")).toBeInTheDocument();
+
+    shouldThrow = false;
+    fireEvent.click(screen.getByText("RESTORE LAST SAVE"));
+    expect(screen.getByText("mission running at /sorting")).toBeInTheDocument();
+  });
+
+  it("restores a save on the first stage to the root route", () => {
+    saveRun(localStorage, createInitialState(4));
+    render(
+      <MemoryRouter initialEntries={["/heating"]}>
+        <GameErrorBoundary>
+          <Flaky />
+        </GameErrorBoundary>
+      </MemoryRouter>,
+    );
+
+    shouldThrow = false;
+    fireEvent.click(screen.getByText("RESTORE LAST SAVE"));
+    expect(screen.getByText("mission running at /")).toBeInTheDocument();
+  });
+
+  it("drops the saved run and the chosen scenario when starting over", () => {
+    saveRun(localStorage, setStage(createInitialState(4), "sorting"));
+    saveActiveScenario(localStorage, { ...DEFAULT_SCENARIO, id: "broken", levels: ["melting"] });
+    render(
+      <MemoryRouter>
+        <GameErrorBoundary>
+          <Flaky />
+        </GameErrorBoundary>
+      </MemoryRouter>,
+    );
+
+    shouldThrow = false;
+    fireEvent.click(screen.getByText("START OVER"));
+    expect(screen.getByText("mission running at /")).toBeInTheDocument();
+    expect(loadRun(localStorage)).toBeNull();
+    expect(loadActiveScenario(localStorage)).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import {
+  COOLING_DURATION,
+  COOLING_TICK,
+  PRODUCT_COUNT,
+  calculateHeatMetrics,
+  captureCheckpoint,
+  computeResults,
+  createInitialState,
+  dropProduct,
+  generateProductQueue,
+  getBalanceTotal,
+  getBaseYields,
+  getTotalSorted,
+  heatCell,
+  isSortingComplete,
+  LOSS_STREAMS,
+  restoreCheckpoint,
+  setStage,
+  spawnProduct,
+  startCooling,
+  step,
+  type SimulationState,
+} from "@/lib/simulation/engine";
+
+const fullyHeated = (state: SimulationState): SimulationState => ({
+  ...state,
+  heatGrid: state.heatGrid.map(row => row.map(() => 100)),
+});
+
+describe("engine", () => {
+  it("splits the feedstock into base yields that sum to one", () => {
+    for (const ratio of [0, 30, 50, 100]) {
+      const base = getBaseYields(ratio);
+      expect(Object.values(base).reduce((sum, fraction) => sum + fraction, 0)).toBeCloseTo(1);
+    }
+    expect(getBaseYields(100).liquidFuel).toBeCloseTo(0.55);
+    expect(getBaseYields(100).aqueous).toBe(0);
+    expect(getBaseYields(0).biochar).toBeCloseTo(0.3);
+  });
+
+  it("scores an evenly heated reactor as fully uniform", () => {
+    const metrics = calculateHeatMetrics(fullyHeated(createInitialState()).heatGrid);
+    expect(metrics.uniformity).toBe(100);
+    expect(metrics.completeness).toBe(100);
+  });
+
+  it("only heats cells during the heating stage", () => {
+    const idle = heatCell(createInitialState(), 0, 0);
+    expect(idle.heatGrid[0][0]).toBe(0);
+    const heating = heatCell(setStage(createInitialState(), "heating"), 0, 0);
+    expect(heating.heatGrid[0][0]).toBe(50);
+    const offGrid = setStage(createInitialState(), "heating");
+    expect(heatCell(offGrid, 10, 0)).toBe(offGrid);
+    expect(heatCell(offGrid, 0, 10)).toBe(offGrid);
+  });
+
+  it("counts wrong bins as losses and completes once every product is handled", () => {
+    let state = generateProductQueue(setStage(createInitialState(42), "sorting"));
+    for (let i = 0; i < PRODUCT_COUNT; i++) state = spawnProduct(state, i);
+    const { queue } = state.sorting;
+
+    state = dropProduct(state, queue[0] === "biochar" ? "syngas" : "biochar", 0);
+    for (let i = 1; i < PRODUCT_COUNT; i++) state = dropProduct(state, queue[i], i);
+
+    expect(state.sorting.losses).toBe(1);
+    expect(getTotalSorted(state.sorting)).toBe(PRODUCT_COUNT - 1);
+    expect(isSortingComplete(state)).toBe(true);
+  });
+
+  it("replays the same products and spawn positions for the same seed", () => {
+    const run = (seed: number) => {
+      let state = generateProductQueue(setStage(createInitialState(seed), "sorting"));
+      for (let i = 0; i < PRODUCT_COUNT; i++) state = spawnProduct(state, i);
+      return state.sorting.spawned.map(p => `${p.type}@${p.x.toFixed(6)}`);
+    };
+    expect(run(1234)).toEqual(run(1234));
+    expect(run(1234)).not.toEqual(run(4321));
+  });
+
+  it("spawns one queued product per spawn interval", () => {
+    let state = generateProductQueue(setStage(createInitialState(1), "sorting"));
+    for (let i = 0; i < 14; i++) state = step(state, { coolingPower: 0 }, COOLING_TICK);
+    expect(state.sorting.totalSpawned).toBe(0);
+    state = step(state, { coolingPower: 0 }, COOLING_TICK);
+    expect(state.sorting.totalSpawned).toBe(1);
+    for (let i = 0; i < 300; i++) state = step(state, { coolingPower: 0 }, COOLING_TICK);
+    expect(state.sorting.totalSpawned).toBe(PRODUCT_COUNT);
+  });
+
+  it("cools the gas and condenses fuel only while cooling is running", () => {
+    const idle = step(setStage(createInitialState(), "cooling"), { coolingPower: 50 }, COOLING_TICK);
+    expect(idle.cooling.time).toBe(0);
+
+    let state = startCooling(setStage(fullyHeated(createInitialState()), "cooling"));
+    state = step(state, { coolingPower: 50 }, COOLING_TICK);
+    expect(state.cooling.gasTemp).toBeCloseTo(600 - 50 * 1.5 + 2);
+    expect(state.cooling.condensedFuel).toBeGreaterThan(0);
+
+    for (let i = 0; i < 200; i++) state = step(state, { coolingPower: 0 }, COOLING_TICK);
+    expect(state.cooling.time).toBe(COOLING_DURATION);
+    expect(state.cooling.gasTemp).toBeLessThanOrEqual(900);
+  });
+
+  it("condenses only the fuel the reactor made", () => {
+    const condensed = (heat: number) => {
+      const state = createInitialState();
+      const cooling = startCooling(setStage({ ...state, heatGrid: state.heatGrid.map(row => row.map(() => heat)) }, "cooling"));
+      return step(cooling, { coolingPower: 50 }, COOLING_TICK).cooling.condensedFuel;
+    };
+    expect(condensed(0)).toBeCloseTo(0);
+    expect(condensed(60)).toBeGreaterThan(0);
+    expect(condensed(60)).toBeLessThan(condensed(100));
+  });
+
+  it("rewinds a stage to its checkpoint and forgets the stages after it", () => {
+    let state = captureCheckpoint(setStage(createInitialState(8), "heating"));
+    state = fullyHeated(state);
+    state = captureCheckpoint(setStage(state, "cooling"));
+    state = step(startCooling(state), { coolingPower: 80 }, COOLING_TICK);
+    state = captureCheckpoint(setStage(state, "results"));
+
+    const retried = restoreCheckpoint(state, "cooling");
+    expect(retried.stage).toBe("cooling");
+    expect(retried.cooling.started).toBe(false);
+    expect(retried.heatGrid).toEqual(state.heatGrid);
+    expect(retried.checkpoints.map(checkpoint => checkpoint.stage)).toEqual(["heating", "cooling"]);
+
+    expect(captureCheckpoint(retried)).toBe(retried);
+    expect(restoreCheckpoint(retried, "sorting")).toBe(retried);
+  });
+
+  it("rewards perfect play with the base yields", () => {
+    const state = fullyHeated(createInitialState());
+    const results = computeResults({ ...state, cooling: { ...state.cooling, gasTemp: 400 } });
+    expect(results.yields.liquidFuel).toBeCloseTo(37.5);
+    expect(results.yields.syngas).toBeCloseTo(26);
+    expect(results.yields.biochar).toBeCloseTo(19);
+    expect(results.yields.ash).toBeCloseTo(2.5);
+    expect(results.condensationQuality).toBe(100);
+  });
+
+  it("accounts for all of the feed when play is imperfect", () => {
+    let state = createInitialState(3);
+    state = { ...state, heatGrid: state.heatGrid.map((row, r) => row.map((_, c) => ((r + c) % 2 === 0 ? 100 : 30))) };
+    state = { ...state, sorting: { ...state.sorting, progress: { ...state.sorting.progress, syngas: 12 }, losses: 3 } };
+    const results = computeResults({ ...state, cooling: { ...state.cooling, gasTemp: 700 } });
+    const { balance } = results;
+
+    expect(getBalanceTotal(balance)).toBeCloseTo(100, 9);
+    expect(balance.products).toEqual(results.yields);
+    for (const stream of LOSS_STREAMS.filter(stream => stream !== "stages")) expect(balance.losses[stream]).toBeGreaterThan(0);
+    expect(balance.losses.stages).toBe(0);
+    // A fifth of the sorted products went to the wrong bin
+    const recovered = Object.values(results.yields).reduce((sum, value) => sum + value, 0);
+    expect(balance.losses.sorting / (recovered + balance.losses.sorting)).toBeCloseTo(0.2);
+  });
+
+  it("loses nothing on a perfect run", () => {
+    const state = fullyHeated(createInitialState());
+    const { balance } = computeResults({ ...state, cooling: { ...state.cooling, gasTemp: 400 } });
+    expect(Object.values(balance.losses).every(loss => Math.abs(loss) < 1e-9)).toBe(true);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeResults,
+  createInitialState,
+  getBalanceTotal,
+  getBaseYields,
+  getFeedYields,
+  isFeedComplete,
+  setFeed,
+  setPlasticRatio,
+} from "@/lib/simulation/engine";
+import {
+  FEEDSTOCKS,
+  analyzeMix,
+  getPlasticShare,
+  isMixComplete,
+  mixFromPlasticRatio,
+  normalizeMix,
+  type FeedMix,
+} from "@/lib/simulation/feedstocks";
+import { DEFAULT_SCENARIO, parseScenario } from "@/lib/simulation/scenario";
+
+const sum = (values: object) => Object.values(values).reduce((total: number, value: number) => total + value, 0);
+
+describe("feedstock catalog", () => {
+  it("gives every feedstock complete proximate and ultimate analyses", () => {
+    for (const feedstock of FEEDSTOCKS) {
+      expect(sum(feedstock.proximate), feedstock.id).toBeCloseTo(100, 6);
+      expect(sum(feedstock.ultimate), feedstock.id).toBeCloseTo(100, 6);
+    }
+  });
+
+  it("blends analyses by mass, and elements by dry ash-free mass", () => {
+    const { proximate, ultimate } = analyzeMix([
+      { id: "pe", share: 50 },
+      { id: "food-waste", share: 50 },
+    ]);
+    expect(proximate.moisture).toBeCloseTo(35.05);
+    expect(sum(proximate)).toBeCloseTo(100);
+    // Food waste is mostly water, so the organic matter is mostly polyethylene
+    expect(ultimate.C).toBeGreaterThan(75);
+    expect(sum(ultimate)).toBeCloseTo(100);
+  });
+
+  it("reads the plastic share off the mix", () => {
+    expect(getPlasticShare(mixFromPlasticRatio(30))).toBe(30);
+    expect(
+      getPlasticShare([
+        { id: "tyres", share: 20 },
+        { id: "pet", share: 20 },
+        { id: "rice-husk", share: 40 },
+      ]),
+    ).toBe(50);
+  });
+
+  it("scales shares to 100 keeping their proportions", () => {
+    const mix = normalizeMix([
+      { id: "pe", share: 10 },
+      { id: "pp", share: 10 },
+      { id: "paper", share: 10 },
+    ]);
+    expect(mix.map(component => component.share)).toEqual([33.4, 33.3, 33.3]);
+    expect(isMixComplete(mix)).toBe(true);
+  });
+});
+
+describe("feed yields", () => {
+  it("match the scenario's yields for the standard plastic/biomass pair", () => {
+    const yields = getFeedYields(mixFromPlasticRatio(40));
+    const base = getBaseYields(40);
+    for (const [id, value] of Object.entries(base)) expect(yields[id as keyof typeof base], id).toBeCloseTo(value, 9);
+  });
+
+  it("carry a feed's own ash and fixed carbon into the solid yields", () => {
+    const wood = getFeedYields([{ id: "wood-chips", share: 100 }]);
+    const husk = getFeedYields([{ id: "rice-husk", share: 100 }]);
+    expect(husk.ash - wood.ash).toBeCloseTo(19 / 90 - 0.7 / 75, 6);
+    expect(husk.biochar - wood.biochar).toBeCloseTo(15 / 90 - 13.8 / 75, 6);
+    expect(husk.liquidFuel).toBeLessThan(wood.liquidFuel);
+    expect(sum(husk)).toBeCloseTo(1, 9);
+  });
+
+  it("show up in the results and keep the balance closed", () => {
+    const finished = (mix: FeedMix) => {
+      const state = setFeed(createInitialState(1), mix);
+      return computeResults({ ...state, heatGrid: state.heatGrid.map(row => row.map(() => 100)) });
+    };
+    const wood = finished([{ id: "wood-chips", share: 100, moisture: 10 }]);
+    const husk = finished([{ id: "rice-husk", share: 100, moisture: 10 }]);
+    expect(husk.yields.ash).toBeGreaterThan(wood.yields.ash * 5);
+    expect(getBalanceTotal(husk.balance)).toBeCloseTo(100, 9);
+  });
+});
+
+describe("feed state", () => {
+  it("starts from the scenario's mix, or its plastic ratio", () => {
+    expect(createInitialState(1).feed).toEqual(mixFromPlasticRatio(50));
+    const { scenario } = parseScenario({
+      version: 1,
+      title: "Tyres",
+      stages: { feedstock: { mix: [{ id: "tyres", share: 100 }] } },
+    });
+    expect(createInitialState(1, scenario)).toMatchObject({ feed: [{ id: "tyres", share: 100 }], plasticRatio: 100 });
+  });
+
+  it("only lets a feed adding up to 100 % into the reactor", () => {
+    const partial = setFeed(createInitialState(1), [
+      { id: "pvc", share: 5 },
+      { id: "wood-chips", share: 80 },
+    ]);
+    expect(partial.plasticRatio).toBeCloseTo(100 / 17);
+    expect(isFeedComplete(partial)).toBe(false);
+    expect(isFeedComplete(setPlasticRatio(partial, 40))).toBe(true);
+    expect(isFeedComplete(setFeed(partial, []))).toBe(false);
+  });
+
+  it("rejects scenario mixes that repeat feedstocks or miss 100 %", () => {
+    const withMix = (mix: unknown) =>
+      parseScenario({ version: 1, title: "Mix", stages: { feedstock: { mix } } }).errors;
+    expect(withMix([{ id: "pe", share: 60 }, { id: "pe", share: 40 }])).toEqual([
+      "stages.feedstock.mix: Each feedstock can only appear once",
+    ]);
+    expect(withMix([{ id: "pe", share: 60 }])).toEqual([
+      "stages.feedstock.mix: Shares must add up to 100 (they add up to 60)",
+    ]);
+    expect(DEFAULT_SCENARIO.stages.feedstock.mix).toBeUndefined();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { computeResults, createInitialState, getBalanceTotal, heatCell, setFeed, setStage } from "@/lib/simulation/engine";
+import type { FeedMix } from "@/lib/simulation/feedstocks";
+import { getEvaporatedShare, getHeatDemand, getHeatingRate, getMixMoisture, getParticleFactor } from "@/lib/simulation/heatup";
+import { DEFAULT_SCENARIO } from "@/lib/simulation/scenario";
+
+const woodChips = (moisture: number, particleSize = 5): FeedMix => [{ id: "wood-chips", share: 100, moisture, particleSize }];
+
+const runOn = (mix: FeedMix, heat = 100) => {
+  const state = setFeed(createInitialState(1), mix);
+  return computeResults({
+    ...state,
+    heatGrid: state.heatGrid.map(row => row.map(() => heat)),
+    cooling: { ...state.cooling, gasTemp: DEFAULT_SCENARIO.stages.cooling.optimalGasTemp },
+  });
+};
+
+describe("feed heat-up", () => {
+  it("spends the extra energy of wet feed on drying", () => {
+    const dry = getHeatDemand(woodChips(0), 500);
+    const wet = getHeatDemand(woodChips(40), 500);
+    expect(dry.drying).toBe(0);
+    expect(dry.heating).toBeCloseTo(197.9, 1);
+    expect(wet.drying).toBeGreaterThan(wet.heating);
+    expect(wet.total).toBeCloseTo(wet.heating + wet.drying);
+    expect(getMixMoisture([...woodChips(40), { id: "pe", share: 100 }])).toBeCloseTo(0.2005);
+  });
+
+  it("heats wet and coarse feed more slowly", () => {
+    expect(getHeatingRate(woodChips(0), 500)).toBe(1);
+    expect(getHeatingRate(woodChips(25), 500)).toBeLessThan(0.6);
+    expect(getParticleFactor(3)).toBe(1);
+    expect(getParticleFactor(40)).toBeCloseTo(0.5);
+
+    const heated = (mix: FeedMix) => heatCell(setStage(setFeed(createInitialState(1), mix), "heating"), 0, 0).heatGrid[0][0];
+    expect(heated(woodChips(0, 40))).toBeCloseTo(25);
+    expect(heated(woodChips(25))).toBeLessThan(heated(woodChips(10)));
+  });
+
+  it("keeps the standard mission's feed dry and fine", () => {
+    const { feed } = createInitialState(1);
+    expect(getMixMoisture(feed)).toBe(0);
+    expect(getHeatingRate(feed, DEFAULT_SCENARIO.stages.heating.peakTemperature)).toBe(1);
+  });
+
+  it("only boils off water where the reactor passes 100 °C", () => {
+    expect(getEvaporatedShare([[0, 10], [20, 100]], DEFAULT_SCENARIO)).toBe(0.5);
+  });
+});
+
+describe("moisture in the results", () => {
+  it("condenses the feed's water into the aqueous phase", () => {
+    const dry = runOn(woodChips(0));
+    const wet = runOn(woodChips(30));
+    expect(wet.yields.aqueous - dry.yields.aqueous * 0.7).toBeCloseTo(30);
+    expect(wet.yields.liquidFuel).toBeCloseTo(dry.yields.liquidFuel * 0.7);
+    expect(wet.productValue).toBeLessThan(dry.productValue * 0.7);
+    expect(getBalanceTotal(wet.balance)).toBeCloseTo(100, 9);
+  });
+
+  it("leaves water in feed the reactor never dried", () => {
+    const { balance } = runOn(woodChips(30), 10);
+    expect(balance.products.aqueous).toBeCloseTo(0);
+    expect(balance.losses.unconverted).toBeCloseTo(100);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { getBaseYields } from "@/lib/simulation/engine";
+import {
+  FEEDSTOCK_COMPONENTS,
+  getCellTemperature,
+  getKineticYields,
+  getReactionProfile,
+  rateConstant,
+  reactComponent,
+  reactFeed,
+} from "@/lib/simulation/kinetics";
+import { PRODUCTS } from "@/lib/simulation/products";
+import { DEFAULT_SCENARIO } from "@/lib/simulation/scenario";
+
+const uniformGrid = (heat: number) => Array.from({ length: 10 }, () => Array<number>(10).fill(heat));
+
+const phaseShare = (products: Record<string, number>, phase: string) =>
+  PRODUCTS.filter(product => product.phase === phase).reduce((sum, product) => sum + products[product.id], 0);
+
+describe("reaction kinetics", () => {
+  it("maps cell heat onto the reactor temperature range", () => {
+    expect(getCellTemperature(0)).toBe(25);
+    expect(getCellTemperature(100)).toBe(DEFAULT_SCENARIO.stages.heating.peakTemperature);
+  });
+
+  it("speeds reactions up exponentially with temperature", () => {
+    const [polyolefin] = FEEDSTOCK_COMPONENTS.plastic;
+    expect(rateConstant(polyolefin.vapour, 500)).toBeCloseTo(0.05);
+    expect(rateConstant(polyolefin.vapour, 450) / rateConstant(polyolefin.vapour, 500)).toBeLessThan(0.2);
+  });
+
+  it("conserves the mass of every component", () => {
+    for (const component of [...FEEDSTOCK_COMPONENTS.plastic, ...FEEDSTOCK_COMPONENTS.biomass]) {
+      for (const temperature of [25, 300, 500]) {
+        const { unreacted, phases } = reactComponent(component, temperature, 600);
+        expect(unreacted + phases.vapour + phases.gas + phases.solid).toBeCloseTo(1, 12);
+      }
+    }
+  });
+
+  it("leaves a cold reactor unreacted", () => {
+    expect(reactFeed(uniformGrid(0), 50, DEFAULT_SCENARIO, 600).unreacted).toBeCloseTo(1);
+  });
+});
+
+describe("kinetic yields", () => {
+  const base = getBaseYields(50);
+
+  it("give the scenario's yields at design conditions", () => {
+    const { conversion, products } = getKineticYields(uniformGrid(100), 50, base, DEFAULT_SCENARIO);
+    expect(conversion).toBe(1);
+    for (const product of PRODUCTS) expect(products[product.id]).toBeCloseTo(base[product.id], 12);
+  });
+
+  it("convert less of an under-heated feed and favour char over gas", () => {
+    const design = getKineticYields(uniformGrid(100), 50, base, DEFAULT_SCENARIO);
+    const cool = getKineticYields(uniformGrid(75), 50, base, DEFAULT_SCENARIO);
+
+    expect(cool.conversion).toBeLessThan(0.7);
+    const total = Object.values(cool.products).reduce((sum, value) => sum + value, 0);
+    expect(total).toBeCloseTo(cool.conversion, 12);
+    expect(phaseShare(cool.products, "solid") / total).toBeGreaterThan(phaseShare(design.products, "solid"));
+    expect(phaseShare(cool.products, "gas") / total).toBeLessThan(phaseShare(design.products, "gas"));
+  });
+
+  it("punish cold spots more than their share of the grid", () => {
+    const even = uniformGrid(85);
+    const uneven = even.map((row, r) => row.map(() => (r < 5 ? 100 : 70)));
+    expect(getKineticYields(uneven, 50, base, DEFAULT_SCENARIO).conversion).toBeLessThan(
+      getKineticYields(even, 50, base, DEFAULT_SCENARIO).conversion,
+    );
+  });
+
+  it("build up conversion through the residence time", () => {
+    const profile = getReactionProfile(uniformGrid(90), 50, base, DEFAULT_SCENARIO, 10);
+    expect(profile).toHaveLength(11);
+    expect(profile[0]).toMatchObject({ time: 0, conversion: 0 });
+    expect(profile[10].time).toBe(DEFAULT_SCENARIO.stages.heating.residenceTime);
+    for (let i = 1; i < profile.length; i++) expect(profile[i].conversion).toBeGreaterThanOrEqual(profile[i - 1].conversion);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { createStageMachine, type StageDefinition } from "@/lib/simulation/machine";
+
+interface State {
+  stage: string;
+  ready: boolean;
+  log: string[];
+}
+
+const stages: StageDefinition<State>[] = [
+  { id: "intro", title: "Intro", next: "work" },
+  {
+    id: "work",
+    title: "Work",
+    next: "review",
+    isLevel: true,
+    canComplete: state => state.ready,
+    onExit: state => ({ ...state, log: [...state.log, "exit work"] }),
+  },
+  {
+    id: "review",
+    title: "Review",
+    next: null,
+    isLevel: true,
+    onEnter: state => ({ ...state, log: [...state.log, "enter review"] }),
+  },
+];
+
+const initial: State = { stage: "intro", ready: false, log: [] };
+
+const createMachine = (order?: string[]) => createStageMachine<State, StageDefinition<State>>(stages, order);
+
+describe("stage machine", () => {
+  it("follows next pointers and numbers the levels", () => {
+    const machine = createMachine();
+    expect(machine.stages.map(stage => stage.id)).toEqual(["intro", "work", "review"]);
+    expect(machine.levelOf("work")).toBe(1);
+    expect(machine.levelOf("intro")).toBeNull();
+  });
+
+  it("blocks advancing until the guard passes and runs exit/entry actions", () => {
+    const machine = createMachine();
+    const working = machine.advance(initial);
+    expect(working.stage).toBe("work");
+    expect(machine.advance(working)).toBe(working);
+
+    const done = machine.advance({ ...working, ready: true });
+    expect(done.stage).toBe("review");
+    expect(done.log).toEqual(["exit work", "enter review"]);
+    expect(machine.canAdvance(done)).toBe(false);
+  });
+
+  it("lets a scenario reorder or skip stages", () => {
+    const machine = createMachine(["intro", "review"]);
+    expect(machine.advance(initial).stage).toBe("review");
+    expect(machine.levelOf("review")).toBe(1);
+  });
+
+  it("only lets a stage be entered directly once every earlier guard passes", () => {
+    const machine = createMachine();
+    expect(machine.earliestIncomplete(initial).id).toBe("work");
+    expect(machine.canEnter(initial, "work")).toBe(true);
+    expect(machine.canEnter(initial, "review")).toBe(false);
+
+    const ready = { ...initial, ready: true };
+    expect(machine.earliestIncomplete(ready).id).toBe("review");
+    expect(machine.canEnter(ready, "review")).toBe(true);
+  });
+
+  it("rejects unknown stages", () => {
+    expect(() => createMachine(["intro", "missing"])).toThrow('Unknown stage "missing"');
+  });
+});
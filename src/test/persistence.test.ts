@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { captureCheckpoint, createInitialState, setStage } from "@/lib/simulation/engine";
+import { DEFAULT_SCENARIO } from "@/lib/simulation/scenario";
+import {
+  SAVE_KEY,
+  SAVE_VERSION,
+  clearActiveScenario,
+  clearRun,
+  loadActiveScenario,
+  loadRun,
+  parseSavedRun,
+  saveActiveScenario,
+  saveRun,
+  serializeRun,
+  type RunStorage,
+} from "@/lib/simulation/persistence";
+
+const createMemoryStorage = (): RunStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: key => void items.delete(key),
+  };
+};
+
+describe("persistence", () => {
+  it("round-trips a run through storage", () => {
+    const storage = createMemoryStorage();
+    const state = setStage(createInitialState(99), "heating");
+    saveRun(storage, state);
+    expect(loadRun(storage)?.state).toEqual(state);
+
+    clearRun(storage);
+    expect(loadRun(storage)).toBeNull();
+  });
+
+  it("remembers the scenario chosen for new runs", () => {
+    const storage = createMemoryStorage();
+    expect(loadActiveScenario(storage)).toBeNull();
+    const scenario = { ...DEFAULT_SCENARIO, id: "short", title: "Short", levels: ["heating"] };
+    saveActiveScenario(storage, scenario);
+    expect(loadActiveScenario(storage)).toEqual(scenario);
+
+    clearActiveScenario(storage);
+    expect(loadActiveScenario(storage)).toBeNull();
+  });
+
+  it("migrates saves written by older versions", () => {
+    const state = createInitialState(5);
+    const { plasticRatio, ...legacy } = state;
+    const raw = JSON.stringify({ version: SAVE_VERSION - 1, savedAt: 1, state: { ...legacy, plastic: plasticRatio } });
+    const migrations = {
+      [SAVE_VERSION - 1]: ({ plastic, ...rest }: Record<string, unknown>) => ({ ...rest, plasticRatio: plastic }),
+    };
+    expect(parseSavedRun(raw, migrations)?.state).toEqual(state);
+    expect(parseSavedRun(raw, {})).toBeNull();
+  });
+
+  it("gives runs saved before checkpoints existed an empty checkpoint list", () => {
+    const { checkpoints, ...legacy } = createInitialState(12);
+    const raw = JSON.stringify({ version: 1, savedAt: 1, state: legacy });
+    expect(checkpoints).toEqual([]);
+    expect(parseSavedRun(raw)?.state).toEqual(createInitialState(12));
+  });
+
+  it("adds empty bins for products introduced after a run was saved", () => {
+    const state = createInitialState(3);
+    const { wax, tar, aqueous, ash, ...progress } = state.sorting.progress;
+    const legacy = { ...state, sorting: { ...state.sorting, progress } };
+    const raw = JSON.stringify({ version: 3, savedAt: 1, state: legacy });
+    expect(parseSavedRun(raw)?.state).toEqual(state);
+  });
+
+  it("gives scenarios saved before reactor conditions existed the default ones", () => {
+    const state = captureCheckpoint(setStage(createInitialState(8), "heating"));
+    const { peakTemperature, residenceTime, ...heating } = DEFAULT_SCENARIO.stages.heating;
+    const scenario = { ...DEFAULT_SCENARIO, stages: { ...DEFAULT_SCENARIO.stages, heating } };
+    const legacy = {
+      ...state,
+      scenario,
+      checkpoints: state.checkpoints.map(({ stage, snapshot }) => ({ stage, snapshot: { ...snapshot, scenario } })),
+    };
+
+    expect({ peakTemperature, residenceTime }).toEqual({ peakTemperature: 500, residenceTime: 600 });
+    expect(parseSavedRun(JSON.stringify({ version: 5, savedAt: 1, state: legacy }))?.state).toEqual(state);
+  });
+
+  it("turns the plastic ratio of older saves into a feed mix", () => {
+    const state = createInitialState(8);
+    const { feed, ...legacy } = setStage({ ...state, plasticRatio: 70 }, "heating");
+    const raw = JSON.stringify({ version: 6, savedAt: 1, state: legacy });
+
+    expect(feed).toEqual(state.feed);
+    expect(parseSavedRun(raw)?.state.feed).toEqual([
+      { id: "pe", share: 70, moisture: 0, particleSize: 5 },
+      { id: "wood-chips", share: 30, moisture: 0, particleSize: 5 },
+    ]);
+  });
+
+  it("turns dechlorination off for runs saved before it existed", () => {
+    const state = captureCheckpoint(setStage(createInitialState(4), "heating"));
+    const strip = ({ dechlorination, ...rest }: Record<string, unknown>) => rest;
+    const legacy = {
+      ...strip({ ...state }),
+      checkpoints: state.checkpoints.map(({ stage, snapshot }) => ({ stage, snapshot: strip({ ...snapshot }) })),
+    };
+    expect(parseSavedRun(JSON.stringify({ version: 7, savedAt: 1, state: legacy }))?.state).toEqual(state);
+  });
+
+  it("ignores corrupt, malformed and future saves", () => {
+    expect(parseSavedRun("{not json")).toBeNull();
+    expect(parseSavedRun(JSON.stringify({ version: SAVE_VERSION, state: { stage: "heating" } }))).toBeNull();
+    expect(parseSavedRun(serializeRun(createInitialState()).replace(`"version":${SAVE_VERSION}`, '"version":99'))).toBeNull();
+  });
+
+  it("keeps going when storage refuses writes", () => {
+    const storage: RunStorage = {
+      getItem: () => null,
+      setItem: () => {
+        throw new Error("QuotaExceededError");
+      },
+      removeItem: () => {},
+    };
+    expect(() => saveRun(storage, createInitialState())).not.toThrow();
+    expect(storage.getItem(SAVE_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { buildStageRegistry } from "@/components/simulator/stages";
+import type { FC, ReactElement } from "react";
+import { toStageRegistration, type PluginStageProps, type StagePlugin } from "@/components/simulator/plugins";
+import { getPenaltyTotal } from "@/lib/simulation/chlorine";
+import {
+  computeResults,
+  createInitialState,
+  getBalanceTotal,
+  getProductRevenue,
+  setDechlorination,
+  setFeed,
+  type SimulationState,
+} from "@/lib/simulation/engine";
+import { createStageMachine } from "@/lib/simulation/machine";
+import { computeMissionResults, getPluginState } from "@/lib/simulation/plugins";
+import { applyInput, createRecorder, createReplayContext, createReplayCursor, type RunInput } from "@/lib/simulation/replay";
+import type { StageProps, StageRegistration } from "@/components/simulator/types";
+
+interface ShredderSlice {
+  passes: number;
+  running: boolean;
+}
+
+const shredder: StagePlugin<ShredderSlice> = {
+  id: "shredding",
+  title: "Shredding",
+  before: "heating",
+  initialState: () => ({ passes: 0, running: true }),
+  canComplete: slice => slice.passes >= 2,
+  isRunning: slice => slice.running,
+  step: slice => ({ passes: slice.passes + 1, running: slice.passes + 1 < 2 }),
+  results: slice => ({ score: 50, yieldFactor: slice.passes >= 2 ? 0.5 : 1 }),
+  component: () => null,
+};
+
+const plugins = [shredder as unknown as StagePlugin];
+
+describe("stage plugins", () => {
+  it("splices plugin stages into the flow in front of their target", () => {
+    const machine = createStageMachine<SimulationState, StageRegistration>(buildStageRegistry(plugins));
+    expect(machine.stages.map(stage => stage.id)).toEqual([
+      "landing",
+      "feedstock",
+      "shredding",
+      "heating",
+      "sorting",
+      "cooling",
+      "results",
+    ]);
+    expect(machine.levelOf("shredding")).toBe(2);
+  });
+
+  it("keeps the plugin slice in state and drives it from the clock", () => {
+    const machine = createStageMachine<SimulationState, StageRegistration>(buildStageRegistry(plugins));
+    let state = machine.enter(createInitialState(1), "shredding");
+    const stage = machine.current(state);
+    expect(stage.isRunning?.(state)).toBe(true);
+    expect(machine.canAdvance(state)).toBe(false);
+
+    state = stage.onTick!(stage.onTick!(state, 0.1), 0.1);
+    expect(getPluginState(state, shredder)).toEqual({ passes: 2, running: false });
+    expect(machine.canAdvance(state)).toBe(true);
+  });
+
+  it("records slice updates so replays of the run include the stage", () => {
+    const machine = createStageMachine<SimulationState, StageRegistration>(buildStageRegistry(plugins));
+    const context = createReplayContext(machine);
+    let time = 0;
+    const recorder = createRecorder(() => time);
+    let state = machine.enter(createInitialState(1), "shredding");
+    recorder.start(state);
+    const dispatch = (input: RunInput) => {
+      time += 100;
+      recorder.record(input);
+      state = applyInput(state, input, context);
+    };
+
+    const { component } = toStageRegistration(shredder);
+    const render = () => (component as FC<StageProps>)({ state, dispatch } as StageProps) as ReactElement<PluginStageProps<ShredderSlice>>;
+    render().props.updateSlice(slice => ({ ...slice, passes: slice.passes + 1 }));
+    render().props.updateSlice(slice => ({ ...slice, running: false }));
+
+    expect(getPluginState(state, shredder)).toEqual({ passes: 1, running: false });
+    expect(createReplayCursor(recorder.toFile(), context).seek(time)).toEqual(state);
+  });
+
+  it("folds plugin contributions into the results", () => {
+    const state = { ...createInitialState(1), plugins: { shredding: { passes: 2, running: false } } };
+    const base = computeResults(state);
+    const results = computeMissionResults(state, plugins);
+    expect(results.yields.liquidFuel).toBeCloseTo(base.yields.liquidFuel * 0.5);
+    expect(results.productValue).toBeCloseTo(base.productValue * 0.5);
+    expect(results.stages).toEqual([{ id: "shredding", title: "Shredding", score: 50, yieldFactor: 0.5 }]);
+    expect(computeMissionResults(state, [])).toEqual({ ...base, stages: [] });
+  });
+
+  it("scales the revenue but not the per-tonne chlorine costs", () => {
+    const feed = setDechlorination(setFeed(createInitialState(1), [{ id: "pe", share: 98 }, { id: "pvc", share: 2 }]), true);
+    const heatGrid = feed.heatGrid.map(row => row.map(() => 100));
+    const state = { ...feed, heatGrid, plugins: { shredding: { passes: 2, running: false } } };
+    const base = computeResults(state);
+    const results = computeMissionResults(state, plugins);
+
+    expect(results.chlorine.penalties.dechlorination).toBe(base.chlorine.penalties.dechlorination);
+    expect(results.chlorine.fuelChlorine).toBeCloseTo(base.chlorine.fuelChlorine * 2);
+    expect(results.productValue).toBeCloseTo(getProductRevenue(base.yields) * 0.5 - getPenaltyTotal(results.chlorine));
+  });
+
+  it("books the yield a plugin stage wastes as a loss stream", () => {
+    const heatGrid = createInitialState(1).heatGrid.map(row => row.map(() => 100));
+    const state = { ...createInitialState(1), heatGrid, plugins: { shredding: { passes: 2, running: false } } };
+    const base = computeResults(state);
+    const { balance } = computeMissionResults(state, plugins);
+    const baseRecovered = Object.values(base.yields).reduce((sum, value) => sum + value, 0);
+
+    expect(balance.losses.stages).toBeCloseTo(baseRecovered * 0.5);
+    expect(getBalanceTotal(balance)).toBeCloseTo(100, 9);
+  });
+
+  it("refuses a plugin whose target stage is not in the flow", () => {
+    expect(() => buildStageRegistry([{ ...shredder, before: "landing" } as unknown as StagePlugin])).toThrow(
+      'Stage plugin "shredding" cannot be placed before "landing"',
+    );
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { createRandom, createStream, parseSeed, randomAt } from "@/lib/simulation/random";
+
+describe("random", () => {
+  it("produces the same sequence for the same seed", () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const draws = Array.from({ length: 5 }, () => a());
+    expect(Array.from({ length: 5 }, () => b())).toEqual(draws);
+    expect(draws.every(value => value >= 0 && value < 1)).toBe(true);
+  });
+
+  it("keeps named streams independent of each other", () => {
+    expect(createStream(7, "products")()).not.toBe(createStream(7, "spawn")());
+    expect(randomAt(7, "spawn", 3)).toBe(randomAt(7, "spawn", 3));
+    expect(randomAt(7, "spawn", 3)).not.toBe(randomAt(7, "spawn", 4));
+  });
+
+  it("parses numeric and text seeds from the query string", () => {
+    expect(parseSeed("12345")).toBe(12345);
+    expect(parseSeed("class-7b")).toBe(parseSeed("class-7b"));
+    expect(parseSeed("")).toBeNull();
+    expect(parseSeed(null)).toBeNull();
+  });
+});
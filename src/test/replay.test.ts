@@ -0,0 +1,163 @@
+import { describe, it, expect } from "vitest";
+import { createInitialState, setStage, startCooling, type SimulationState } from "@/lib/simulation/engine";
+import { createStageMachine } from "@/lib/simulation/machine";
+import {
+  applyInput,
+  createRecorder,
+  createReplayContext,
+  createReplayCursor,
+  getReplayDuration,
+  loadReplay,
+  type RunInput,
+} from "@/lib/simulation/replay";
+import { STAGE_REGISTRY } from "@/components/simulator/stages";
+import type { StageRegistration } from "@/components/simulator/types";
+
+const stageIds = STAGE_REGISTRY.map(stage => stage.id);
+const context = createReplayContext(createStageMachine<SimulationState, StageRegistration>(STAGE_REGISTRY));
+
+/** Plays a run the way the simulator shell does: every input is recorded, then applied. */
+const playRun = () => {
+  let time = 1000;
+  const recorder = createRecorder(() => time);
+  let state = createInitialState(7);
+  recorder.start(state);
+  const dispatch = (input: RunInput, delay = 100) => {
+    time += delay;
+    recorder.record(input);
+    state = applyInput(state, input, context);
+  };
+
+  dispatch({ type: "enterStage", stage: "feedstock" });
+  dispatch({ type: "setPlasticRatio", value: 35 });
+  dispatch({
+    type: "setFeed",
+    mix: [
+      { id: "pp", share: 35 },
+      { id: "rice-husk", share: 65 },
+    ],
+  });
+  dispatch({ type: "enterStage", stage: "heating" });
+  state.heatGrid.forEach((cells, row) =>
+    cells.forEach((_, col) => {
+      dispatch({ type: "heatCell", row, col });
+      dispatch({ type: "heatCell", row, col }, 50);
+    }),
+  );
+  dispatch({ type: "enterStage", stage: "sorting" });
+  while (context.isRunning(state)) {
+    dispatch({ type: "tick", count: 1, duration: 0 }, 16);
+    for (const product of state.sorting.spawned) {
+      dispatch({ type: "dropProduct", bin: product.type, productId: product.id }, 0);
+    }
+  }
+  dispatch({ type: "enterStage", stage: "cooling" }, 2000);
+  dispatch({ type: "setCoolingPower", power: 60 });
+  dispatch({ type: "startCooling" });
+  for (let i = 0; i < 20; i++) dispatch({ type: "tick", count: 1, duration: 0 }, 16);
+  dispatch({ type: "fastForward", seconds: 1000 }, 500);
+  dispatch({ type: "enterStage", stage: "results" });
+
+  return { state, replay: recorder.toFile() };
+};
+
+describe("replay recording", () => {
+  it("stores consecutive ticks as one run and splits runs at a pause", () => {
+    let time = 0;
+    const recorder = createRecorder(() => time);
+    recorder.start(createInitialState(1));
+    for (const at of [16, 32, 48, 1000, 1016]) {
+      time = at;
+      recorder.record({ type: "tick", count: 1, duration: 0 });
+    }
+
+    expect(recorder.toFile().entries).toEqual([
+      { at: 16, input: { type: "tick", count: 3, duration: 32 } },
+      { at: 1000, input: { type: "tick", count: 2, duration: 16 } },
+    ]);
+  });
+
+  it("starts over when a new run starts", () => {
+    const recorder = createRecorder(() => 0);
+    recorder.start(createInitialState(1));
+    recorder.record({ type: "startCooling" });
+    recorder.start(createInitialState(2));
+
+    expect(recorder.toFile()).toMatchObject({ initial: { seed: 2 }, entries: [] });
+  });
+});
+
+describe("replay playback", () => {
+  it("reproduces the recorded run exactly", () => {
+    const { state, replay } = playRun();
+    const loaded = loadReplay(JSON.stringify(replay), stageIds).replay;
+    const cursor = createReplayCursor(loaded, context);
+
+    expect(state.stage).toBe("results");
+    expect(cursor.seek(cursor.duration)).toEqual(JSON.parse(JSON.stringify(state)));
+  });
+
+  it("scrubs backwards and forwards to the same states", () => {
+    const { replay } = playRun();
+    const cursor = createReplayCursor(replay, context);
+    const middle = getReplayDuration(replay) / 2;
+
+    const forward = cursor.seek(middle);
+    cursor.seek(cursor.duration);
+    expect(cursor.seek(middle)).toEqual(forward);
+    expect(cursor.seek(0).stage).toBe("landing");
+  });
+
+  it("spreads a run of ticks over its duration while scrubbing", () => {
+    let time = 0;
+    const recorder = createRecorder(() => time);
+    const initial = startCooling(setStage(createInitialState(3), "cooling"));
+    recorder.start(initial);
+    for (let i = 0; i < 11; i++) {
+      time = i * 100;
+      recorder.record({ type: "tick", count: 1, duration: 0 });
+    }
+    const cursor = createReplayCursor(recorder.toFile(), context);
+
+    expect(cursor.seek(500).cooling.time).toBeCloseTo(initial.cooling.time + 6 * context.timestep);
+    expect(cursor.seek(1000).cooling.time).toBeCloseTo(initial.cooling.time + 11 * context.timestep);
+  });
+});
+
+describe("replay files", () => {
+  it("report what is wrong with a file that cannot be played", () => {
+    expect(loadReplay("not json", stageIds).errors[0]).toMatch(/^replay: Not valid JSON/);
+
+    const { replay } = playRun();
+    const broken = {
+      ...replay,
+      version: 9,
+      entries: [{ at: 0, input: { type: "heatCell", row: -1, col: 0 } }],
+    };
+    expect(loadReplay(JSON.stringify(broken), stageIds).errors).toEqual([
+      "version: Unsupported replay version, expected 1",
+      expect.stringMatching(/^entries\.0\.input\.row: /),
+    ]);
+  });
+
+  it("reject inputs the engine cannot apply", () => {
+    const { replay } = playRun();
+    const tampered = {
+      ...replay,
+      entries: [
+        { at: 0, input: { type: "enterStage", stage: "nope" } },
+        { at: 10, input: { type: "heatCell", row: 10, col: 0 } },
+        ...replay.entries,
+      ],
+    };
+    expect(loadReplay(JSON.stringify(tampered), stageIds)).toEqual({
+      replay: null,
+      errors: ['entries.0.input.stage: Unknown stage "nope"', "entries.1.input: Cell 10,0 is outside the heat grid"],
+    });
+
+    const scenario = { ...replay.initial.scenario, levels: ["heating", "melting"] };
+    expect(loadReplay(JSON.stringify({ ...replay, initial: { ...replay.initial, scenario } }), stageIds).errors).toEqual([
+      'initial.scenario.levels.1: Unknown stage "melting"',
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { MemoryRouter, Route, Routes, useLocation } from "react-router-dom";
+import Index from "@/pages/Index";
+import { createInitialState, setStage } from "@/lib/simulation/engine";
+import { loadActiveScenario, saveActiveScenario, saveRun } from "@/lib/simulation/persistence";
+import { parseScenario } from "@/lib/simulation/scenario";
+
+const CurrentPath = () => <div data-testid="path">{useLocation().pathname}</div>;
+
+const renderAt = (path: string) =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <MemoryRouter initialEntries={[path]}>
+        <Routes>
+          <Route path="/:stageId?" element={<Index />} />
+        </Routes>
+        <CurrentPath />
+      </MemoryRouter>
+    </QueryClientProvider>,
+  );
+
+describe("stage routes", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("opens a reachable stage straight from its link", () => {
+    renderAt("/heating?seed=7");
+    expect(screen.getByTestId("path")).toHaveTextContent("/heating");
+    expect(screen.getByText("Level 2: Microwave Heating")).toBeInTheDocument();
+  });
+
+  it("redirects a deep link to the earliest incomplete stage", () => {
+    renderAt("/cooling");
+    expect(screen.getByTestId("path")).toHaveTextContent("/heating");
+  });
+
+  it("offers to resume a saved run from the landing screen", () => {
+    saveRun(localStorage, setStage(createInitialState(3), "heating"));
+    renderAt("/");
+    fireEvent.click(screen.getByText("RESUME MISSION"));
+    expect(screen.getByTestId("path")).toHaveTextContent("/heating");
+  });
+
+  it("plays the levels chosen by the active scenario", () => {
+    const { scenario } = parseScenario({ version: 1, title: "Quick Cool", levels: ["cooling"] });
+    saveActiveScenario(localStorage, scenario);
+    renderAt("/heating");
+    expect(screen.getByTestId("path")).toHaveTextContent("/cooling");
+    expect(screen.getByText("Level 1: Syngas Cooling")).toBeInTheDocument();
+  });
+
+  it("restarts the run under a scenario picked from the library", () => {
+    renderAt("/");
+    fireEvent.click(screen.getByText("Rush hour"));
+    expect(screen.getByText("SCENARIO: RUSH HOUR")).toBeInTheDocument();
+    expect(loadActiveScenario(localStorage)?.id).toBe("rush-hour");
+  });
+
+  it("jumps straight to a later stage from the debug overlay", () => {
+    renderAt("/?debug=1&seed=5");
+    fireEvent.click(screen.getByRole("button", { name: "cooling" }));
+    expect(screen.getByTestId("path")).toHaveTextContent("/cooling");
+    expect(screen.getByText("Level 4: Syngas Cooling")).toBeInTheDocument();
+  });
+
+  it("shows the not found page for unknown stages", () => {
+    renderAt("/reactor");
+    expect(screen.getByText("404")).toBeInTheDocument();
+  });
+});
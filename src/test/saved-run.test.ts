@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { SAVE_DELAY, useSavedRun } from "@/hooks/use-saved-run";
+import { createInitialState, setStage, type SimulationState } from "@/lib/simulation/engine";
+import { loadRun } from "@/lib/simulation/persistence";
+
+describe("saved run hook", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const cooling = setStage(createInitialState(3), "cooling");
+  const at = (time: number): SimulationState => ({ ...cooling, cooling: { ...cooling.cooling, time } });
+
+  it("writes clock ticks at most once per save delay", () => {
+    const { rerender } = renderHook(({ state }) => useSavedRun(state, true), { initialProps: { state: at(0) } });
+    const setItem = vi.spyOn(Storage.prototype, "setItem");
+    for (let tick = 1; tick <= 20; tick++) rerender({ state: at(tick / 10) });
+    expect(setItem).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(SAVE_DELAY);
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(loadRun(localStorage)?.state.cooling.time).toBe(2);
+  });
+
+  it("writes stage changes and hidden pages straight away", () => {
+    const { rerender, result } = renderHook(({ state }) => useSavedRun(state, true), {
+      initialProps: { state: setStage(createInitialState(3), "sorting") },
+    });
+    rerender({ state: at(0.5) });
+    expect(loadRun(localStorage)?.state.stage).toBe("cooling");
+
+    rerender({ state: at(0.6) });
+    window.dispatchEvent(new Event("pagehide"));
+    expect(loadRun(localStorage)?.state.cooling.time).toBe(0.6);
+
+    rerender({ state: at(0.7) });
+    act(() => result.current.clear());
+    vi.advanceTimersByTime(SAVE_DELAY);
+    expect(loadRun(localStorage)).toBeNull();
+    expect(result.current.hasSave).toBe(false);
+  });
+});
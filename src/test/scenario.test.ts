@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeResults,
+  createInitialState,
+  generateProductQueue,
+  getBaseYields,
+  isHeatingComplete,
+  setStage,
+} from "@/lib/simulation/engine";
+import { DEFAULT_SCENARIO, evaluateTargets, loadScenario, parseScenario, type Scenario } from "@/lib/simulation/scenario";
+
+const parse = (input: unknown): Scenario => {
+  const { scenario, errors } = parseScenario(input);
+  if (!scenario) throw new Error(errors.join("\n"));
+  return scenario;
+};
+
+describe("scenario", () => {
+  it("fills every omitted field from the standard mission", () => {
+    const scenario = parse({ version: 1, title: "Short sort", stages: { sorting: { productCount: 5 } } });
+    expect(scenario.stages.sorting).toEqual({ productCount: 5, spawnInterval: 1.5 });
+    expect(scenario.stages.cooling).toEqual(DEFAULT_SCENARIO.stages.cooling);
+    expect(scenario.feedstocks).toEqual(DEFAULT_SCENARIO.feedstocks);
+    expect(getBaseYields(100, DEFAULT_SCENARIO).liquidFuel).toBeCloseTo(0.55);
+  });
+
+  it("drives the engine from the scenario parameters", () => {
+    const scenario = parse({
+      version: 1,
+      title: "Pure oil",
+      feedstocks: { plastic: { yields: { liquidFuel: 1 } }, biomass: { yields: { liquidFuel: 0.5, syngas: 0.5 } } },
+      stages: { feedstock: { plasticRatio: 100 }, heating: { gridSize: 4, threshold: 10 }, sorting: { productCount: 6 } },
+    });
+    const state = createInitialState(9, scenario);
+    expect(state.plasticRatio).toBe(100);
+    expect(state.heatGrid).toHaveLength(4);
+
+    const sorting = generateProductQueue(setStage(state, "sorting"));
+    expect(sorting.sorting.queue).toEqual(Array(6).fill("liquidFuel"));
+    expect(getBaseYields(0, scenario).wax).toBe(0);
+
+    const heated = { ...state, heatGrid: state.heatGrid.map(row => row.map(() => 10)) };
+    expect(isHeatingComplete(heated)).toBe(true);
+  });
+
+  it("reports readable, located validation errors", () => {
+    const result = parseScenario({
+      version: 1,
+      title: "Broken",
+      feedstocks: { plastic: { yields: { liquidFuel: 0.5, syngas: 0.2 } } },
+      stages: { sorting: { productCount: 0 }, coolng: {} },
+    });
+    expect(result.scenario).toBeNull();
+    expect(result.errors).toContain("feedstocks.plastic.yields: Yields must add up to 1 (they add up to 0.7)");
+    expect(result.errors).toContainEqual(expect.stringMatching(/^stages\.sorting\.productCount: /));
+    expect(result.errors).toContainEqual(expect.stringMatching(/^stages: Unrecognized key\(s\) in object: 'coolng'/));
+  });
+
+  it("rejects other versions and text that is not JSON", () => {
+    expect(loadScenario('{"version": 2, "title": "Future"}')).toEqual({
+      scenario: null,
+      errors: ["version: Unsupported scenario version, expected 1"],
+    });
+    const invalid = loadScenario("{ version: 1 ");
+    expect(invalid.scenario).toBeNull();
+    expect(invalid.errors[0]).toMatch(/^scenario: Not valid JSON/);
+  });
+
+  it("grades results against the scenario targets", () => {
+    const scenario = parse({ version: 1, title: "Graded", targets: { sortingRecovery: 90, condensationQuality: 50 } });
+    const results = computeResults(createInitialState(1, scenario));
+    expect(evaluateTargets(results, scenario.targets)).toEqual([
+      { metric: "sortingRecovery", target: 90, actual: 0, met: false },
+      { metric: "condensationQuality", target: 50, actual: results.condensationQuality, met: true },
+    ]);
+  });
+});
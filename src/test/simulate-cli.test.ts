@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildRuns,
+  formatOutputs,
+  parseSimulateArgs,
+  simulateReplay,
+  simulateRuns,
+  type ReadFile,
+} from "@/cli/simulate-runs";
+import { runScenario } from "@/lib/simulation/batch";
+import { computeResults, createInitialState, setPlasticRatio, setStage } from "@/lib/simulation/engine";
+import { createRecorder } from "@/lib/simulation/replay";
+import { DEFAULT_SCENARIO } from "@/lib/simulation/scenario";
+
+const files = (contents: Record<string, unknown>): ReadFile => path => {
+  if (!(path in contents)) throw new Error(`ENOENT: no such file, open '${path}'`);
+  const content = contents[path];
+  return typeof content === "string" ? content : JSON.stringify(content);
+};
+
+describe("simulate command", () => {
+  it("plays the run described by the flags through the shared batch runner", () => {
+    const options = parseSimulateArgs(["--plastic", "70", "--heat", "90", "--cooling", "40,60", "--seed", "3"]);
+    const runs = buildRuns(options, files({}));
+    expect(runs).toEqual([
+      { seed: 3, plasticRatio: 70, heat: 90, sortingLosses: undefined, coolingPower: [40, 60], scenario: DEFAULT_SCENARIO },
+    ]);
+    expect(simulateRuns(runs)[0].results).toEqual(runScenario(runs[0]));
+  });
+
+  it("reads the scenario and a list of runs from files", () => {
+    const readFile = files({
+      "short.json": { version: 1, id: "short", title: "Short", stages: { heating: { gridSize: 2 } }, targets: { sortingRecovery: 50 } },
+      "runs.json": [
+        { id: "hot", plasticRatio: 50, heat: [[100, 100], [100, 100]], coolingPower: 50 },
+        { id: "lossy", plasticRatio: 50, heat: 100, sortingLosses: 3, coolingPower: 50 },
+      ],
+    });
+    const outputs = simulateRuns(buildRuns(parseSimulateArgs(["--scenario", "short.json", "--inputs", "runs.json"]), readFile));
+    expect(outputs.map(output => output.id)).toEqual(["hot", "lossy"]);
+    expect(outputs[0].targets).toEqual([{ metric: "sortingRecovery", target: 50, actual: 100, met: true }]);
+    expect(outputs[1].results.processLoss).toBeGreaterThan(0);
+  });
+
+  it("plays feed compositions from the flags and from input files", () => {
+    const [run] = buildRuns(parseSimulateArgs(["--mix", "pe:40,pet:10,wood-chips:50:10:5"]), files({}));
+    expect(run.plasticRatio).toBe(50);
+    expect(run.mix).toEqual([
+      { id: "pe", share: 40 },
+      { id: "pet", share: 10 },
+      { id: "wood-chips", share: 50, moisture: 10, particleSize: 5 },
+    ]);
+
+    const readFile = files({ "runs.json": [{ mix: [{ id: "tyres", share: 100 }], heat: 100, coolingPower: 50 }] });
+    expect(buildRuns(parseSimulateArgs(["--inputs", "runs.json"]), readFile)[0].plasticRatio).toBe(100);
+    expect(() => buildRuns(parseSimulateArgs(["--mix", "pe:40,glass:60"]), files({}))).toThrow("mix.1.id: Invalid enum value");
+    expect(() => buildRuns(parseSimulateArgs(["--mix", "pe:40"]), files({}))).toThrow(
+      "mix: Shares must add up to 100 (they add up to 40)",
+    );
+    expect(() => buildRuns(parseSimulateArgs(["--mix", "pe"]), files({}))).toThrow(
+      '--mix expects id:share[:moisture[:particle size]] entries, got "pe"',
+    );
+  });
+
+  it("dechlorinates when asked to", () => {
+    const [run] = buildRuns(parseSimulateArgs(["--mix", "pe:95,pvc:5", "--dechlorination"]), files({}));
+    expect(run.dechlorination).toBe(true);
+    const [raw] = buildRuns(parseSimulateArgs(["--mix", "pe:95,pvc:5"]), files({}));
+    expect(simulateRuns([run])[0].results.chlorine.corrosion).toBeLessThan(simulateRuns([raw])[0].results.chlorine.corrosion);
+  });
+
+  it("explains bad scenarios, runs and flags", () => {
+    const readFile = files({ "broken.json": { version: 1 }, "grid.json": [[1, 2]] });
+    expect(() => buildRuns(parseSimulateArgs(["--scenario", "broken.json"]), readFile)).toThrow(
+      "Invalid scenario broken.json:\n  title: Required",
+    );
+    expect(() => buildRuns(parseSimulateArgs(["--heat", "grid.json"]), readFile)).toThrow(
+      "the heat grid must be 10x10 for this scenario",
+    );
+    expect(() => buildRuns(parseSimulateArgs(["--cooling", "lots"]), readFile)).toThrow('--cooling expects a number, got "lots"');
+    expect(() => buildRuns(parseSimulateArgs(["--inputs", "missing.json"]), readFile)).toThrow(/^Could not read missing\.json/);
+    expect(() => parseSimulateArgs(["--format", "xml"])).toThrow('Unknown format "xml", expected json or csv');
+  });
+
+  it("plays the inputs recorded in a replay file", () => {
+    const recorder = createRecorder(() => 0);
+    const initial = createInitialState(5);
+    recorder.start(initial);
+    recorder.record({ type: "enterStage", stage: "feedstock" });
+    recorder.record({ type: "setPlasticRatio", value: 70 });
+    const readFile = files({ "run.json": recorder.toFile(), "broken.json": { version: 1 } });
+
+    const output = simulateReplay(parseSimulateArgs(["--replay", "run.json"]), readFile);
+    expect(output.id).toBe("run.json");
+    expect(output.results).toEqual(computeResults(setPlasticRatio(setStage(initial, "feedstock"), 70)));
+    expect(() => simulateReplay(parseSimulateArgs(["--replay", "run.json", "--heat", "50"]), readFile)).toThrow(
+      "--replay plays the recorded run and cannot be combined with --heat",
+    );
+    expect(() => simulateReplay(parseSimulateArgs(["--replay", "broken.json"]), readFile)).toThrow(
+      /^Invalid replay broken\.json:\n {2}saveVersion: Required/,
+    );
+  });
+
+  it("prints one CSV row per run with flattened result columns", () => {
+    const outputs = simulateRuns(buildRuns(parseSimulateArgs([]), files({})));
+    const [header, row] = formatOutputs([{ ...outputs[0], id: "a,b" }], "csv").split("\n");
+    expect(header.split(",").slice(0, 3)).toEqual(["id", "yields.liquidFuel", "yields.wax"]);
+    expect(header).toContain("heatMetrics.uniformity");
+    expect(row.startsWith('"a,b",')).toBe(true);
+
+    const graded = { ...outputs[0], targets: [{ metric: "sortingRecovery" as const, target: 50, actual: 100, met: true }] };
+    const [targetHeader, targetRow] = formatOutputs([graded], "csv").split("\n");
+    expect(targetHeader.split(",").slice(-3)).toEqual(["targets.sortingRecovery.target", "targets.sortingRecovery.met", "passed"]);
+    expect(targetRow.split(",").slice(-3)).toEqual(["50", "true", "true"]);
+    expect(JSON.parse(formatOutputs(outputs, "json")).results).toEqual(JSON.parse(JSON.stringify(outputs[0].results)));
+  });
+});
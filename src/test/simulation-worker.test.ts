@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useSimulationWorker } from "@/hooks/use-simulation-worker";
+import type { RunScenario } from "@/lib/simulation/batch";
+import type { SimulationWorkerRequest, SimulationWorkerResponse } from "@/lib/simulation/worker-protocol";
+
+/** Stands in for the web worker; the test answers its requests by hand. */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: MessageEvent<SimulationWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: SimulationWorkerRequest[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: SimulationWorkerRequest) {
+    this.requests.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  respond(message: SimulationWorkerResponse) {
+    act(() => this.onmessage?.(new MessageEvent("message", { data: message })));
+  }
+
+  fail(message: string) {
+    act(() => this.onerror?.(new ErrorEvent("error", { message, cancelable: true })));
+  }
+}
+
+const run = (seed: number): RunScenario => ({ seed, plasticRatio: 50, heat: 100, coolingPower: 50 });
+const scenarios = [run(1), run(2)];
+
+describe("simulation worker hook", () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal("Worker", FakeWorker);
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("reports progress and resolves with the results", async () => {
+    const { result } = renderHook(() => useSimulationWorker());
+    let batch: Promise<unknown>;
+    act(() => {
+      batch = result.current.runBatch(scenarios);
+    });
+    const [worker] = FakeWorker.instances;
+    expect(worker.requests).toEqual([{ type: "run", jobId: 0, scenarios }]);
+
+    worker.respond({ type: "progress", jobId: 0, completed: 1, total: 2 });
+    expect(result.current.progress).toEqual({ running: true, completed: 1, total: 2 });
+
+    worker.respond({ type: "done", jobId: 0, results: [] });
+    await expect(batch).resolves.toEqual([]);
+    expect(result.current.progress.running).toBe(false);
+  });
+
+  it("ignores progress from a job that was superseded", async () => {
+    const { result } = renderHook(() => useSimulationWorker());
+    let first: Promise<unknown>;
+    act(() => {
+      first = result.current.runBatch(scenarios);
+    });
+    act(() => {
+      void result.current.runBatch([run(3)]);
+    });
+    const [worker] = FakeWorker.instances;
+    expect(worker.requests[1]).toEqual({ type: "cancel", jobId: 0 });
+
+    worker.respond({ type: "progress", jobId: 0, completed: 2, total: 2 });
+    expect(result.current.progress).toEqual({ running: true, completed: 0, total: 1 });
+
+    worker.respond({ type: "cancelled", jobId: 0 });
+    await expect(first).resolves.toBeNull();
+    expect(result.current.progress).toEqual({ running: true, completed: 0, total: 1 });
+  });
+
+  it("rejects pending jobs when the worker fails, and starts a new worker next time", async () => {
+    const { result } = renderHook(() => useSimulationWorker());
+    let batch: Promise<unknown>;
+    act(() => {
+      batch = result.current.runBatch(scenarios);
+    });
+    const [worker] = FakeWorker.instances;
+
+    worker.fail("Failed to load module script");
+    await expect(batch).rejects.toThrow("Failed to load module script");
+    expect(worker.terminated).toBe(true);
+    expect(result.current.progress.running).toBe(false);
+
+    act(() => {
+      void result.current.runBatch(scenarios);
+    });
+    expect(FakeWorker.instances).toHaveLength(2);
+  });
+});
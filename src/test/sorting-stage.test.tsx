@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from "vitest";
+import { fireEvent, render } from "@testing-library/react";
+import SortingStage from "@/components/simulator/SortingStage";
+import type { StageProps } from "@/components/simulator/types";
+import { getStateFixture } from "@/lib/simulation/fixtures";
+
+const renderSorting = () => {
+  const state = getStateFixture("sorting-belt").create();
+  const dispatch = vi.fn();
+  const { container } = render(
+    <SortingStage {...({ state, dispatch, title: "Output Sorting", level: 3, canAdvance: false } as unknown as StageProps)} />,
+  );
+  const drop = (productId: string) =>
+    fireEvent.drop(container.querySelector('[data-bin="liquidFuel"]'), { dataTransfer: { getData: () => productId } });
+  return { state, dispatch, drop };
+};
+
+describe("sorting stage", () => {
+  it("records products dropped into a bin", () => {
+    const { state, dispatch, drop } = renderSorting();
+    const [product] = state.sorting.spawned;
+    drop(String(product.id));
+    expect(dispatch).toHaveBeenCalledWith({ type: "dropProduct", bin: "liquidFuel", productId: product.id });
+  });
+
+  it("ignores drops that carry no product on the belt", () => {
+    const { dispatch, drop } = renderSorting();
+    drop("");
+    drop("some selected text");
+    drop("9999");
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+});
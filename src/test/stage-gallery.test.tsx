@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { render, screen, within } from "@testing-library/react";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import StageGallery from "@/pages/StageGallery";
+import { STAGE_REGISTRY } from "@/components/simulator/stages";
+import { calculateHeatMetrics, isHeatingComplete, isSortingComplete } from "@/lib/simulation/engine";
+import { STATE_FIXTURES, getStateFixture } from "@/lib/simulation/fixtures";
+
+const renderGallery = (search = "") =>
+  render(
+    <MemoryRouter initialEntries={[`/dev/stages${search}`]}>
+      <Routes>
+        <Route path="/dev/stages" element={<StageGallery />} />
+      </Routes>
+    </MemoryRouter>,
+  );
+
+describe("stage fixtures", () => {
+  it("put every fixture on the stage it is shown on", () => {
+    const ids = STATE_FIXTURES.map(fixture => fixture.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const fixture of STATE_FIXTURES) {
+      expect(STAGE_REGISTRY.map(stage => stage.id)).toContain(fixture.stage);
+      expect(fixture.create().stage).toBe(fixture.stage);
+    }
+  });
+
+  it("describe the edge states their titles promise", () => {
+    const uneven = getStateFixture("heating-uneven").create();
+    expect(calculateHeatMetrics(uneven.heatGrid).completeness).toBeCloseTo(65);
+    expect(isHeatingComplete(uneven)).toBe(false);
+
+    const lossy = getStateFixture("sorting-losses").create();
+    expect(lossy.sorting.losses).toBe(3);
+    expect(isSortingComplete(lossy)).toBe(true);
+
+    expect(getStateFixture("cooling-overshoot").create().cooling.gasTemp).toBe(820);
+  });
+});
+
+describe("stage gallery", () => {
+  it("renders every stage against each of its fixtures", () => {
+    renderGallery();
+    for (const stage of STAGE_REGISTRY) {
+      const section = screen.getByRole("region", { name: stage.title });
+      for (const fixture of STATE_FIXTURES.filter(fixture => fixture.stage === stage.id)) {
+        expect(within(section).getByRole("link", { name: fixture.title })).toBeInTheDocument();
+      }
+    }
+  });
+
+  it("shows a single fixture full size", () => {
+    renderGallery("?fixture=heating-uneven");
+    expect(screen.getByText("HEATING IN PROGRESS... 65%")).toBeInTheDocument();
+    expect(screen.getByText("HEAT TO 70% TO PROCEED")).toBeInTheDocument();
+  });
+});
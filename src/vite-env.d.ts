@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Endpoint that receives batched play analytics (`{ events: [...] }` POSTs). */
+  readonly VITE_ANALYTICS_ENDPOINT?: string;
+}
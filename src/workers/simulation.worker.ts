@@ -0,0 +1,31 @@
+/// <reference lib="webworker" />
+import { runBatch } from "@/lib/simulation/batch";
+import type { SimulationWorkerRequest, SimulationWorkerResponse } from "@/lib/simulation/worker-protocol";
+
+declare const self: DedicatedWorkerGlobalScope;
+
+const cancelled = new Set<number>();
+
+const post = (message: SimulationWorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<SimulationWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === "cancel") {
+    cancelled.add(request.jobId);
+    return;
+  }
+
+  const { jobId, scenarios } = request;
+  try {
+    const results = await runBatch(scenarios, {
+      onProgress: (completed, total) => post({ type: "progress", jobId, completed, total }),
+      isCancelled: () => cancelled.has(jobId),
+    });
+    post(results ? { type: "done", jobId, results } : { type: "cancelled", jobId });
+  } catch (error) {
+    post({ type: "error", jobId, message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    cancelled.delete(jobId);
+  }
+};